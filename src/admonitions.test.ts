@@ -0,0 +1,62 @@
+import { test, expect } from 'bun:test'
+import { ADMONITION_FENCE_PATTERN } from './admonitions.js'
+import { createMarkdownRenderer } from './markdown.js'
+
+test('admonitionPlugin - renders typed containers with optional titles', () => {
+  const md = createMarkdownRenderer()
+
+  expect(md.render(':::warning Check the **rigging**\nAlways inspect.\n:::\n')).toBe(
+    '<aside class="admonition admonition-warning">\n' +
+      '<p class="admonition-title">Check the <strong>rigging</strong></p>\n' +
+      '<p>Always inspect.</p>\n' +
+      '</aside>\n',
+  )
+  expect(md.render(':::tip\n- one\n:::\n\nAfter\n')).toBe(
+    '<aside class="admonition admonition-tip">\n<ul>\n<li>one</li>\n</ul>\n</aside>\n<p>After</p>\n',
+  )
+})
+
+test('admonitionPlugin - nests containers and ignores unknown types', () => {
+  const md = createMarkdownRenderer()
+
+  const nested = md.render(':::note Outer\n:::tip\nInner\n:::\nStill outer\n:::\n')
+  expect(nested).toContain('<aside class="admonition admonition-tip">\n<p>Inner</p>\n</aside>\n<p>Still outer</p>\n</aside>')
+  expect(md.render(':::danger\nText\n:::\n')).toBe('<p>:::danger\nText\n:::</p>\n')
+  // Left open, a container runs to the end of the document
+  expect(md.render(':::note\nOpen')).toBe('<aside class="admonition admonition-note">\n<p>Open</p>\n</aside>\n')
+})
+
+test('admonitionPlugin - ignores ::: lines inside code fences', () => {
+  const md = createMarkdownRenderer()
+
+  expect(md.render(':::note\n```md\n:::\n```\nAfter\n:::\n')).toBe(
+    '<aside class="admonition admonition-note">\n' +
+      '<pre><code class="language-md">:::\n</code></pre>\n' +
+      '<p>After</p>\n' +
+      '</aside>\n',
+  )
+  const tilde = md.render(':::tip\n~~~~\n:::\n~~~\n:::\n~~~~\n:::\n')
+  expect(tilde).toContain('<code>:::\n~~~\n:::\n</code>')
+  expect(tilde).toEndWith('</aside>\n')
+})
+
+test('admonitionPlugin - uses configured class names and can be turned off', () => {
+  const md = createMarkdownRenderer(undefined, [], [], undefined, {
+    classNames: { warning: 'callout callout-red', danger: 'callout callout-black' },
+    titleClassName: 'callout-title',
+  })
+
+  expect(md.render(':::warning Heads up\n:::\n')).toBe(
+    '<aside class="callout callout-red">\n<p class="callout-title">Heads up</p>\n</aside>\n',
+  )
+  expect(md.render(':::danger\n:::\n')).toBe('<aside class="callout callout-black"></aside>\n')
+  expect(md.render(':::note\n:::\n')).toContain('admonition admonition-note')
+  expect(createMarkdownRenderer(undefined, [], [], undefined, false).render(':::note\nHi\n:::\n')).toBe(
+    '<p>:::note\nHi\n:::</p>\n',
+  )
+})
+
+test('ADMONITION_FENCE_PATTERN - matches fence markers but not titles', () => {
+  const body = ':::warning Check the rigging\nAlways inspect.\n:::\n'
+  expect(body.match(ADMONITION_FENCE_PATTERN)).toEqual([':::warning', ':::'])
+})
@@ -0,0 +1,117 @@
+import type MarkdownIt from 'markdown-it'
+import type { AdmonitionConfig } from './config.js'
+
+type RuleBlock = Parameters<MarkdownIt['block']['ruler']['before']>[2]
+
+export const DEFAULT_ADMONITION_TYPES = ['note', 'warning', 'tip']
+
+/**
+ * Opening (`:::warning`) and closing (`:::`) fence markers, without any
+ * title. Translation keeps these intact and translates everything else.
+ */
+export const ADMONITION_FENCE_PATTERN = /^[ \t]{0,3}:::[ \t]*[\w-]*/gm
+
+const OPENING_FENCE = /^:::[ \t]*([\w-]+)(?:[ \t]+(.*))?$/
+const CLOSING_FENCE = /^:::[ \t]*$/
+const CODE_FENCE = /^(`{3,}|~{3,})/
+
+/**
+ * Markdown-it plugin for `:::note`, `:::warning` and `:::tip` containers.
+ * Text after the type becomes a title; containers can nest and run to the
+ * end of the document when left open. Keys in `classNames` replace the
+ * default `admonition admonition-<type>` classes or add new types.
+ */
+export function admonitionPlugin(md: MarkdownIt, config: AdmonitionConfig = {}): void {
+  const classNames: Record<string, string> = {}
+  for (const type of DEFAULT_ADMONITION_TYPES) {
+    classNames[type] = `admonition admonition-${type}`
+  }
+  Object.assign(classNames, config.classNames)
+  const titleClassName = config.titleClassName ?? 'admonition-title'
+
+  const lineAt = (state: Parameters<RuleBlock>[0], line: number): string =>
+    state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]).trimEnd()
+  const isFence = (state: Parameters<RuleBlock>[0], line: number): boolean =>
+    state.sCount[line] - state.blkIndent < 4 && state.sCount[line] >= state.blkIndent
+
+  const rule: RuleBlock = (state, startLine, endLine, silent) => {
+    if (!isFence(state, startLine)) {
+      return false
+    }
+    const opening = lineAt(state, startLine).match(OPENING_FENCE)
+    if (!opening || !Object.hasOwn(classNames, opening[1])) {
+      return false
+    }
+    if (silent) {
+      return true
+    }
+
+    // Find the matching `:::`, skipping over nested containers and code blocks
+    let closeLine = startLine + 1
+    let depth = 1
+    let codeFence: string | undefined
+    for (; closeLine < endLine; closeLine++) {
+      if (!isFence(state, closeLine)) {
+        continue
+      }
+      const text = lineAt(state, closeLine)
+      const codeMarker = text.match(CODE_FENCE)?.[1]
+      if (codeFence) {
+        // A closing code fence uses the same character, at least as many times, and nothing else
+        if (codeMarker && codeMarker[0] === codeFence[0] && codeMarker.length >= codeFence.length &&
+          text.trim() === codeMarker) {
+          codeFence = undefined
+        }
+        continue
+      }
+      if (codeMarker) {
+        codeFence = codeMarker
+        continue
+      }
+      if (CLOSING_FENCE.test(text)) {
+        depth--
+      } else if (OPENING_FENCE.test(text) && Object.hasOwn(classNames, text.match(OPENING_FENCE)![1])) {
+        depth++
+      }
+      if (depth === 0) {
+        break
+      }
+    }
+
+    const [, type, title] = opening
+    const open = state.push('admonition_open', 'aside', 1)
+    open.block = true
+    open.info = type
+    open.map = [startLine, closeLine]
+    open.attrSet('class', classNames[type])
+
+    if (title?.trim()) {
+      const titleOpen = state.push('admonition_title_open', 'p', 1)
+      titleOpen.attrSet('class', titleClassName)
+      const inline = state.push('inline', '', 0)
+      inline.content = title.trim()
+      inline.map = [startLine, startLine + 1]
+      inline.children = []
+      state.push('admonition_title_close', 'p', -1)
+    }
+
+    const oldParentType = state.parentType
+    const oldLineMax = state.lineMax
+    // Like the top level, so the contents aren't read as a continuation of
+    // an enclosing paragraph; markdown-it's rules only check for `paragraph`
+    state.parentType = 'root'
+    state.lineMax = closeLine
+    state.md.block.tokenize(state, startLine + 1, closeLine)
+    state.parentType = oldParentType
+    state.lineMax = oldLineMax
+
+    const close = state.push('admonition_close', 'aside', -1)
+    close.block = true
+    state.line = Math.min(closeLine + 1, endLine)
+    return true
+  }
+
+  md.block.ruler.before('fence', 'admonition', rule, {
+    alt: ['paragraph', 'reference', 'blockquote', 'list'],
+  })
+}
@@ -300,3 +300,524 @@ Content here
   expect(exists).toBe(true)
 })
 
+
+test('build - fails on front matter schema violations before writing HTML', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'template.html')
+
+  await mkdir(contentDir, { recursive: true })
+  await writeFile(
+    path.join(contentDir, 'valid.md'),
+    `---
+title: Valid
+---
+# Valid
+`,
+  )
+  await writeFile(
+    path.join(contentDir, 'invalid.md'),
+    `---
+title: Invalid
+noindx: true
+---
+# Invalid
+`,
+  )
+
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body>{{BODY}}</body>
+</html>`,
+  )
+
+  const config = {
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+    frontMatterSchema: { unknownKeys: 'error' as const },
+  }
+
+  await expect(build(config)).rejects.toThrow('invalid.md:3: unknown key "noindx"')
+
+  // Pages that fail for other reasons are reported along with the schema errors
+  await writeFile(path.join(contentDir, 'broken.md'), '---\ntitle: Broken\nlayout: missing\n---\n# Broken\n')
+  const failure = await build(config).then(() => undefined, (error: Error) => error.message)
+  expect(failure).toStartWith('Build failed:\n')
+  expect(failure).toContain('invalid.md:3: unknown key "noindx"')
+  expect(failure).toContain('broken.md: unknown layout "missing"')
+
+  const written = await readFile(path.join(outputDir, 'valid.html'), 'utf-8').then(
+    () => true,
+    () => false,
+  )
+  expect(written).toBe(false)
+})
+
+test('build - skips drafts, scheduled and expired pages unless includeDrafts is set', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'template.html')
+
+  await mkdir(contentDir, { recursive: true })
+  await writeFile(path.join(contentDir, 'index.md'), '---\ntitle: Home\n---\n# Home\n')
+  await writeFile(path.join(contentDir, 'draft.md'), '---\ntitle: Draft\ndraft: true\n---\n# Draft\n')
+  await writeFile(path.join(contentDir, 'future.md'), '---\ntitle: Future\npublishDate: 2999-01-01\n---\n# Future\n')
+  await writeFile(path.join(contentDir, 'expired.md'), '---\ntitle: Old\nexpiryDate: 2000-01-01\n---\n# Old\n')
+
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body>{{BODY}}</body>
+</html>`,
+  )
+
+  const config = {
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  }
+
+  const exists = (file: string) => readFile(path.join(outputDir, file), 'utf-8').then(() => true, () => false)
+
+  const plans = await build(config)
+  expect(plans.map((plan) => plan.relativeOutput)).toEqual(['index.html'])
+  expect(await exists('draft.html')).toBe(false)
+  expect(await exists('future.html')).toBe(false)
+  expect(await exists('expired.html')).toBe(false)
+
+  await build({ ...config, includeDrafts: true })
+  const draft = await readFile(path.join(outputDir, 'draft.html'), 'utf-8')
+  expect(draft).toContain('<meta name="robots" content="noindex, nofollow" />')
+  expect(await exists('future.html')).toBe(true)
+  const sitemap = await readFile(path.join(outputDir, 'sitemap.xml'), 'utf-8')
+  expect(sitemap).not.toContain('draft')
+  expect(sitemap).not.toContain('future')
+})
+
+test('build - applies cascading directory defaults below page front matter', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'template.html')
+
+  await mkdir(path.join(contentDir, 'classes'), { recursive: true })
+  await writeFile(
+    path.join(contentDir, 'classes', '_defaults.md'),
+    '---\nbackLinkHref: /classes\nsidebarTitle: Classes\n---\n',
+  )
+  await writeFile(path.join(contentDir, 'classes', 'silks.md'), '---\ntitle: Silks\n---\n# Silks\n')
+  await writeFile(
+    path.join(contentDir, 'classes', 'hoop.md'),
+    '---\ntitle: Hoop\nsidebarTitle: Hoop sidebar\n---\n# Hoop\n',
+  )
+
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body><a href="{{BACK_LINK_HREF}}">{{BACK_LINK_LABEL}}</a><aside>{{SIDEBAR_TITLE}}</aside>{{BODY}}</body>
+</html>`,
+  )
+
+  const plans = await build({
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  })
+
+  expect(plans).toHaveLength(2)
+  const silks = await readFile(path.join(outputDir, 'classes', 'silks.html'), 'utf-8')
+  expect(silks).toContain('<a href="/classes">Back</a><aside>Classes</aside>')
+  const hoop = await readFile(path.join(outputDir, 'classes', 'hoop.html'), 'utf-8')
+  expect(hoop).toContain('<aside>Hoop sidebar</aside>')
+})
+
+test('build - renders global data in templates and page bodies per language', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'data-template.html')
+
+  await mkdir(path.join(contentDir, '_data', 'fr'), { recursive: true })
+  await mkdir(path.join(contentDir, 'fr'), { recursive: true })
+  await writeFile(path.join(contentDir, '_data', 'studio.json'), JSON.stringify({ phone: '0123', hours: 'Mon-Fri' }))
+  await writeFile(path.join(contentDir, '_data', 'fr', 'studio.json'), JSON.stringify({ hours: 'Lun-Ven' }))
+  await writeFile(path.join(contentDir, '_data', 'notes.md'), '# Not a page\n')
+  await writeFile(path.join(contentDir, 'contact.md'), '---\ntitle: Contact\n---\nOpen **{{data.studio.hours}}**\n\n```md\nCall {{data.studio.phone}}\n```\n\nWrite `{{data.studio.hours}}`\n')
+  await writeFile(path.join(contentDir, 'fr', 'contact.md'), '---\ntitle: Contact\n---\nOuvert {{data.studio.hours}}\n')
+
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body><footer>{{data.studio.phone}}</footer>{{BODY}}</body>
+</html>`,
+  )
+
+  const plans = await build({
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    translations: {
+      targetLanguages: [],
+      defaultLang: 'en',
+      supportedLangs: ['en', 'fr'],
+    },
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  })
+
+  expect(plans).toHaveLength(2)
+  const english = await readFile(path.join(outputDir, 'contact.html'), 'utf-8')
+  expect(english).toContain('<footer>0123</footer>')
+  expect(english).toContain('Open <strong>Mon-Fri</strong>')
+  // Placeholders in code are shown as written
+  expect(english).toContain('Call {{data.studio.phone}}\n</code></pre>')
+  expect(english).toContain('Write <code>{{data.studio.hours}}</code>')
+  const french = await readFile(path.join(outputDir, 'fr', 'contact.html'), 'utf-8')
+  expect(french).toContain('Ouvert Lun-Ven')
+})
+
+test('build - selects layouts from front matter and keeps the homepage template', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'layouts-default.html')
+  const homepageTemplatePath = path.join(TEST_DIR, 'layouts-home.html')
+  const legalPath = path.join(TEST_DIR, 'layouts-legal.html')
+
+  await mkdir(path.join(contentDir, 'legal'), { recursive: true })
+  await writeFile(path.join(contentDir, 'index.md'), '# Home\n')
+  await writeFile(path.join(contentDir, 'about.md'), '# About\n')
+  await writeFile(path.join(contentDir, 'legal', '_meta.json'), JSON.stringify({ layout: 'legal' }))
+  await writeFile(path.join(contentDir, 'legal', 'terms.md'), '# Terms\n')
+
+  const shell = (name: string): string =>
+    `<!DOCTYPE html>\n<html>\n<head><title>{{TITLE}}</title></head>\n<body data-layout="${name}">{{#block main}}{{BODY}}{{/block}}</body>\n</html>`
+  await writeFile(templatePath, shell('default'))
+  await writeFile(homepageTemplatePath, shell('home'))
+  await writeFile(legalPath, '{{extends default}}{{#block main}}<div class="legal">{{BODY}}</div>{{/block}}')
+
+  const config = {
+    contentDir,
+    outputDir,
+    templatePath,
+    homepageTemplatePath,
+    layouts: { legal: legalPath },
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    translations: false as const,
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  }
+  await build(config)
+
+  expect(await readFile(path.join(outputDir, 'index.html'), 'utf-8')).toContain('data-layout="home"')
+  expect(await readFile(path.join(outputDir, 'about.html'), 'utf-8')).toContain('data-layout="default"')
+  const terms = await readFile(path.join(outputDir, 'legal', 'terms.html'), 'utf-8')
+  expect(terms).toContain('<body data-layout="default"><div class="legal"><h1')
+
+  // A site-wide default layout doesn't replace the homepage template; the page's own does
+  await build({ ...config, defaultMeta: { ...config.defaultMeta, layout: 'legal' } })
+  expect(await readFile(path.join(outputDir, 'index.html'), 'utf-8')).toContain('data-layout="home"')
+  expect(await readFile(path.join(outputDir, 'about.html'), 'utf-8')).toContain('<div class="legal">')
+  await writeFile(path.join(contentDir, 'index.md'), '---\nlayout: legal\n---\n# Home\n')
+  await build(config)
+  expect(await readFile(path.join(outputDir, 'index.html'), 'utf-8')).toContain('<div class="legal">')
+
+  await writeFile(path.join(contentDir, 'about.md'), '---\nlayout: blog\n---\n# About\n')
+  await expect(build(config)).rejects.toThrow('about.md: unknown layout "blog" (available: default, legal)')
+})
+
+test('build - renders {{TOC}} unless the page opts out', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'toc-template.html')
+
+  await mkdir(contentDir, { recursive: true })
+  await writeFile(path.join(contentDir, 'silks.md'), '# Silks\n## Warm up\n## Climbs\n')
+  await writeFile(path.join(contentDir, 'short.md'), '---\ntoc: false\n---\n# Short\n## Only section\n')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body><aside>{{TOC}}</aside>{{BODY}}</body>
+</html>`,
+  )
+
+  await build({
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    translations: false,
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  })
+
+  const silks = await readFile(path.join(outputDir, 'silks.html'), 'utf-8')
+  expect(silks).toContain('<aside><nav class="toc" aria-label="Table of contents"><ul><li><a href="#warm-up">Warm up</a></li>')
+  const short = await readFile(path.join(outputDir, 'short.html'), 'utf-8')
+  expect(short).toContain('<aside></aside>')
+})
+
+test('build - renders {{t:key}} strings per language with default language fallback', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const i18nDir = path.join(TEST_DIR, 'i18n')
+  const templatePath = path.join(TEST_DIR, 'i18n-template.html')
+
+  await mkdir(path.join(contentDir, 'fr'), { recursive: true })
+  await mkdir(i18nDir, { recursive: true })
+  await writeFile(path.join(i18nDir, 'en.json'), JSON.stringify({ book_cta: 'Book a class', back: 'Back & home' }))
+  await writeFile(path.join(i18nDir, 'fr.json'), JSON.stringify({ book_cta: 'Réserver un cours' }))
+  await writeFile(path.join(contentDir, 'prices.md'), '---\ntitle: Prices\n---\nPrices\n')
+  await writeFile(path.join(contentDir, 'fr', 'prices.md'), '---\ntitle: Tarifs\n---\nTarifs\n')
+
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body><a class="cta">{{t:book_cta}}</a><a>{{t:back}}</a>{{BODY}}</body>
+</html>`,
+  )
+
+  await build({
+    contentDir,
+    outputDir,
+    templatePath,
+    i18nDir,
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    translations: {
+      targetLanguages: [],
+      defaultLang: 'en',
+      supportedLangs: ['en', 'fr'],
+    },
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  })
+
+  const english = await readFile(path.join(outputDir, 'prices.html'), 'utf-8')
+  expect(english).toContain('<a class="cta">Book a class</a><a>Back &amp; home</a>')
+  const french = await readFile(path.join(outputDir, 'fr', 'prices.html'), 'utf-8')
+  expect(french).toContain('<a class="cta">Réserver un cours</a><a>Back &amp; home</a>')
+})
+
+test('build - runs markdown plugins and lifecycle hooks in order', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'hooks-template.html')
+
+  await mkdir(contentDir, { recursive: true })
+  await writeFile(path.join(contentDir, 'contact.md'), '---\ntitle: Contact\n---\nMail :studio: at [us](mailto:hi@example.com)\n')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body>{{BODY}}</body>
+</html>`,
+  )
+
+  const events: string[] = []
+  const plans = await build({
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    translations: false,
+    markdownPlugins: [
+      (md) => {
+        md.core.ruler.push('studio', (state) => {
+          events.push('plugin')
+          state.tokens.forEach((token) => token.children?.forEach((child) => {
+            child.content = child.content.replace(':studio:', 'the studio')
+          }))
+        })
+      },
+    ],
+    hooks: [
+      {
+        beforeParse: async (raw, meta) => {
+          events.push(`beforeParse:${meta.title}`)
+          return `${raw}\n\nAppended\n`
+        },
+        afterRender: (html, plan) => {
+          events.push(`afterRender:${plan.relativeOutput}`)
+          // Runs before mailto links are obfuscated
+          expect(html).toContain('mailto:hi@example.com')
+          return html.replace('<p>', '<p class="lead">')
+        },
+      },
+      {
+        beforeWrite: (html) => {
+          events.push('beforeWrite')
+          return html.replace('</body>', '<script src="/analytics.js"></script></body>')
+        },
+        afterBuild: (builtPlans) => {
+          events.push(`afterBuild:${builtPlans.length}`)
+        },
+      },
+    ],
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  })
+
+  expect(events).toEqual(['beforeParse:Contact', 'plugin', 'afterRender:contact.html', 'beforeWrite', 'afterBuild:1'])
+  expect(plans[0].html).toStartWith('<p class="lead">Mail the studio at')
+  expect(plans[0].html).toContain('<p>Appended</p>')
+  const output = await readFile(path.join(outputDir, 'contact.html'), 'utf-8')
+  expect(output).toContain('<script src="/analytics.js"></script></body>')
+})
+
+test('build - highlights fenced code and writes the theme stylesheet', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'highlight-template.html')
+
+  await mkdir(contentDir, { recursive: true })
+  await writeFile(path.join(contentDir, 'setup.md'), '---\ntitle: Setup\n---\n```sh {1}\nexport PORT=4173\n```\n')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title><link rel="stylesheet" href="/highlight.css"></head>
+<body>{{BODY}}</body>
+</html>`,
+  )
+
+  const plans = await build({
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    translations: false,
+    highlight: { theme: 'dark' },
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  })
+
+  expect(plans[0].html).toContain('<span class="line is-highlighted"><span class="hl-keyword">export</span> PORT=<span class="hl-number">4173</span></span>')
+  const css = await readFile(path.join(outputDir, 'highlight.css'), 'utf-8')
+  expect(css).toContain('.hl-keyword { color: #ff7b72; }')
+})
+
+test('build - expands shortcodes and reports unknown ones at their line in the file', async () => {
+  const contentDir = path.join(TEST_DIR, 'content')
+  const outputDir = path.join(TEST_DIR, 'docs')
+  const templatePath = path.join(TEST_DIR, 'shortcode-template.html')
+
+  await mkdir(contentDir, { recursive: true })
+  await writeFile(path.join(contentDir, 'book.md'), '---\ntitle: Book\n---\n\n{{< booking class="silks" >}}\n')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body>{{BODY}}</body>
+</html>`,
+  )
+  const config = {
+    contentDir,
+    outputDir,
+    templatePath,
+    baseUrl: 'https://example.com',
+    skipLinkCheck: true,
+    translations: false as const,
+    defaultMeta: {
+      title: 'Test Site',
+      description: 'Test',
+      sidebarTitle: 'Test',
+      sidebarSummary: 'Test',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  }
+
+  const plans = await build({
+    ...config,
+    shortcodes: {
+      booking: (args, _content, meta) => `<div data-class="${args.class}" data-lang="${meta.lang}"></div>`,
+    },
+  })
+  expect(plans[0].html).toBe('<div data-class="silks" data-lang="en"></div>\n')
+
+  await expect(build(config)).rejects.toThrow('book.md:5: unknown shortcode "booking"')
+})
@@ -2,17 +2,30 @@ import { mkdir, readFile, writeFile } from 'node:fs/promises'
 import path from 'node:path'
 import type {
   BuilderConfig,
+  FrontMatterDiagnostic,
   PageMeta,
   RenderPlan,
 } from './config.js'
-import { getDefaultLang, getSupportedLangs } from './config.js'
-import { extractFrontMatter, sanitizeLang, sanitizeSlug, inferLangFromPath } from './frontmatter.js'
+import { getDefaultLang, getHighlightConfig, getI18nDir, getPartialsDir, getSupportedLangs } from './config.js'
+import { extractFrontMatter, getPublishState, sanitizeLang, sanitizeSlug, inferLangFromPath } from './frontmatter.js'
 import { createMarkdownRenderer } from './markdown.js'
-import { renderTemplate, clearTemplateCache } from './template.js'
-import { appendUtmParams, obfuscateMailtoLinks, collectMarkdownFiles, extractSlugFromPath, normalizePathSeparators, cleanHtmlFiles, logWarning } from './utils.js'
+import { renderTemplate, clearTemplateCache, replaceDataPlaceholders, resolveLayoutPath } from './template.js'
+import { appendUtmParams, obfuscateMailtoLinks, collectMarkdownFiles, extractSlugFromPath, normalizePathSeparators, cleanHtmlFiles, logWarning, replaceOutsideCode } from './utils.js'
 import { ensureTranslations } from './translations.js'
 import { writeSitemap, groupByTranslation, buildAlternateLinks, resolveCanonicalRelative } from './sitemap.js'
 import { checkLinks } from './link-checker.js'
+import { createDirectoryDefaultsResolver } from './cascade.js'
+import type { DirectoryDefaultsResolver } from './cascade.js'
+import { reportFrontMatterDiagnostics, validateFrontMatter } from './schema.js'
+import { getDataForLang, loadSiteData } from './data.js'
+import { buildLanguageSwitcherItems } from './language-switcher.js'
+import { getTocLevels, renderMarkdownWithToc } from './toc.js'
+import { buildNavTree, findAdjacentPages, renderAdjacentLink, renderBreadcrumbs, renderNav } from './navigation.js'
+import type { SiteData } from './data.js'
+import { findMissingStrings, getStringFilePath, getStringsForLang, loadStrings } from './i18n.js'
+import { applyTransformHooks, runAfterBuildHooks } from './hooks.js'
+import { getHighlightThemeCss } from './highlight.js'
+import { expandShortcodes, restoreShortcodes } from './shortcodes.js'
 
 export async function build(config: BuilderConfig): Promise<RenderPlan[]> {
   clearTemplateCache()
@@ -26,28 +39,37 @@ export async function build(config: BuilderConfig): Promise<RenderPlan[]> {
   }
   
   const defaultLang = getDefaultLang(config)
-  const supportedLangs = getSupportedLangs(config, defaultLang)
 
   // Ensure translations if enabled
   if (config.translations !== false) {
     await ensureTranslations(config, contentDir, false)
   }
 
-  const markdownFiles = await collectMarkdownFiles(contentDir)
-
-  if (markdownFiles.length === 0) {
-    logWarning('No markdown files found in content/.')
+  const siteData = await loadSiteData(contentDir, getSupportedLangs(config, defaultLang))
+  const i18nDir = getI18nDir(config)
+  const strings = await loadStrings(i18nDir, getSupportedLangs(config, defaultLang))
+  for (const [lang, keys] of Object.entries(findMissingStrings(strings, defaultLang))) {
+    logWarning(
+      `${path.relative(process.cwd(), getStringFilePath(i18nDir, lang))} is missing ${keys.length} ` +
+      `string${keys.length === 1 ? '' : 's'} (${keys.join(', ')}); using ${defaultLang} instead.`,
+    )
+  }
+  const plans = await createPlans(config, siteData)
+  if (plans.length === 0) {
     return []
   }
 
-  const md = createMarkdownRenderer(config.markdownOptions)
-  const plans = await Promise.all(
-    markdownFiles.map(async (filePath) =>
-      createPlan(filePath, config, contentDir, outputDir, md, defaultLang, supportedLangs),
-    ),
-  )
-
   const groups = groupByTranslation(plans)
+  // Pages without a translation link to that language's home page instead
+  const homePlan = plans.find((plan) => plan.relativeOutput === 'index.html')
+  const homeAlternates = homePlan ? buildAlternateLinks(homePlan, groups, config.baseUrl, defaultLang) : []
+  const navTrees = new Map(
+    [...new Set(plans.map((plan) => plan.meta.lang ?? defaultLang))].map((lang) => [
+      lang,
+      buildNavTree(plans, lang, config.baseUrl),
+    ]),
+  )
+  const pageTitles = new Map(plans.map((plan) => [plan.relativeOutput, plan.meta.navTitle ?? plan.meta.title]))
 
   await Promise.all(
     plans.map(async (plan) => {
@@ -55,34 +77,145 @@ export async function build(config: BuilderConfig): Promise<RenderPlan[]> {
       const isHomepage = plan.relativeOutput === 'index.html'
       const alternates = buildAlternateLinks(plan, groups, config.baseUrl, defaultLang)
       const canonicalRelative = resolveCanonicalRelative(plan, groups)
+      const navTree = navTrees.get(plan.meta.lang ?? defaultLang) ?? []
+      const adjacent = findAdjacentPages(navTree, plan.relativeOutput)
       const rendered = await renderTemplate(
         plan.html,
         plan.meta,
-        config.templatePath,
-        config.baseUrl,
-        isHomepage,
-        config.homepageTemplatePath,
-        alternates,
-        canonicalRelative,
+        {
+          templatePath: config.templatePath,
+          baseUrl: config.baseUrl,
+          isHomepage,
+          homepageTemplatePath: config.homepageTemplatePath,
+          alternates,
+          canonicalRelative,
+          data: getDataForLang(siteData, plan.meta.lang),
+          partialsDir: getPartialsDir(config),
+          layouts: config.layouts,
+          languages: buildLanguageSwitcherItems(
+            plan.meta.lang ?? defaultLang,
+            alternates,
+            homeAlternates,
+            config.languageSwitcher?.labels,
+          ),
+          languageSwitcher: config.languageSwitcher,
+          headTags: config.headTags,
+          structuredData: config.structuredData,
+          pageTitles,
+          fragments: {
+            toc: plan.toc,
+            nav: renderNav(navTree, plan.relativeOutput),
+            breadcrumbs: renderBreadcrumbs(navTree, plan.relativeOutput, plan.meta.lang ?? defaultLang),
+            prevLink: renderAdjacentLink(adjacent.prev, 'prev'),
+            nextLink: renderAdjacentLink(adjacent.next, 'next'),
+          },
+          strictTemplates: config.strictTemplates,
+          strings: getStringsForLang(strings, plan.meta.lang ?? defaultLang, defaultLang),
+        },
+      )
+      const html = await applyTransformHooks(
+        config,
+        'beforeWrite',
+        rendered,
+        plan,
+        path.relative(process.cwd(), plan.sourcePath),
       )
-      await writeFile(plan.outputPath, rendered)
+      await writeFile(plan.outputPath, html)
       console.log(`Generated ${path.relative(process.cwd(), plan.outputPath)}`)
     }),
   )
 
+  if (config.headTags?.warnMissingOgImage !== false) {
+    const missingOgImage = plans.filter((plan) => !plan.meta.ogImage).map((plan) => plan.relativeOutput)
+    if (missingOgImage.length > 0) {
+      const listed = missingOgImage.slice(0, 5).join(', ')
+      const more = missingOgImage.length > 5 ? ` and ${missingOgImage.length - 5} more` : ''
+      logWarning(
+        `Missing ogImage for ${missingOgImage.length} page${missingOgImage.length === 1 ? '' : 's'} (${listed}${more}). ` +
+        'Set ogImage in defaultMeta or page front-matter to include Open Graph image tags.',
+      )
+    }
+  }
+
+  const highlight = getHighlightConfig(config)
+  if (highlight && highlight.theme !== false) {
+    await writeFile(path.join(outputDir, 'highlight.css'), getHighlightThemeCss(highlight.theme))
+  }
+
   // Generate sitemap
   await writeSitemap(plans, outputDir, config.baseUrl, defaultLang, groups)
 
   // Check links unless skipped
   if (!config.skipLinkCheck) {
-    await checkLinks(outputDir)
+    await checkLinks(outputDir, config.slugMode)
   }
 
+  await runAfterBuildHooks(config, plans)
+
   return plans
 }
 
 export type { RenderPlan }
 
+/**
+ * Reads and renders every markdown file into a `RenderPlan` without
+ * writing anything. Throws if any page fails front matter validation or
+ * cannot be rendered, listing every problem.
+ * `siteData` is loaded from `content/_data` when not passed in.
+ */
+export async function createPlans(config: BuilderConfig, siteData?: SiteData): Promise<RenderPlan[]> {
+  const contentDir = path.resolve(config.contentDir ?? 'content')
+  const outputDir = path.resolve(config.outputDir ?? 'docs')
+  const defaultLang = getDefaultLang(config)
+  const supportedLangs = getSupportedLangs(config, defaultLang)
+
+  const markdownFiles = await collectMarkdownFiles(contentDir)
+
+  if (markdownFiles.length === 0) {
+    logWarning('No markdown files found in content/.')
+    return []
+  }
+
+  const md = createMarkdownRenderer(
+    config.markdownOptions,
+    getTocLevels(config.toc),
+    config.markdownPlugins,
+    getHighlightConfig(config),
+    config.admonitions,
+    config.slugMode,
+  )
+  const data = siteData ?? await loadSiteData(contentDir, supportedLangs)
+  const resolveDirectoryDefaults = createDirectoryDefaultsResolver(contentDir)
+  const diagnostics: FrontMatterDiagnostic[] = []
+  // Settle every page first, so one broken file doesn't hide the others' problems
+  const results = await Promise.allSettled(
+    markdownFiles.map(async (filePath) =>
+      createPlan(
+        filePath,
+        config,
+        contentDir,
+        outputDir,
+        md,
+        defaultLang,
+        supportedLangs,
+        resolveDirectoryDefaults,
+        data,
+        diagnostics,
+      ),
+    ),
+  )
+
+  // Fail before any HTML is written so every problem is reported at once
+  reportFrontMatterDiagnostics(
+    [...diagnostics].sort((a, b) => a.sourcePath.localeCompare(b.sourcePath) || a.line - b.line),
+    results.flatMap((result) => result.status === 'rejected'
+      ? [result.reason instanceof Error ? result.reason : new Error(String(result.reason))]
+      : []),
+  )
+
+  return results.flatMap((result) => result.status === 'fulfilled' && result.value !== null ? [result.value] : [])
+}
+
 async function createPlan(
   filePath: string,
   config: BuilderConfig,
@@ -91,20 +224,52 @@ async function createPlan(
   md: ReturnType<typeof createMarkdownRenderer>,
   defaultLang: string,
   supportedLangs: readonly string[],
-): Promise<RenderPlan> {
+  resolveDirectoryDefaults: DirectoryDefaultsResolver,
+  siteData: SiteData,
+  diagnostics: FrontMatterDiagnostic[],
+): Promise<RenderPlan | null> {
   const sourcePath = path.resolve(filePath)
   const relativeSource = path.relative(contentDir, sourcePath)
   const raw = await readFile(sourcePath, 'utf-8')
-  const { body, meta } = extractFrontMatter(raw)
+  const { body, bodyLine, meta, keyLines } = extractFrontMatter(raw, path.relative(process.cwd(), sourcePath))
+  const directoryDefaults = await resolveDirectoryDefaults(sourcePath)
+
+  if (config.frontMatterSchema) {
+    diagnostics.push(
+      ...validateFrontMatter(
+        meta,
+        keyLines,
+        config.frontMatterSchema,
+        { ...config.defaultMeta, ...directoryDefaults },
+        sourcePath,
+      ),
+    )
+  }
+
+  // Unpublished pages are only rendered on request, and never indexed
+  const publishState = getPublishState({ ...directoryDefaults, ...meta })
+  if (publishState !== 'published' && !config.includeDrafts) {
+    console.log(`Skipping ${publishState} page ${path.relative(process.cwd(), sourcePath)}`)
+    return null
+  }
+
+  const layout = meta.layout ?? directoryDefaults.layout ?? config.defaultMeta.layout
+  if (layout && !resolveLayoutPath(layout, config.layouts, config.templatePath)) {
+    const available = ['default', ...Object.keys(config.layouts ?? {})]
+    throw new Error(
+      `${path.relative(process.cwd(), sourcePath)}: unknown layout "${layout}" (available: ${[...new Set(available)].join(', ')})`,
+    )
+  }
 
   const lang = sanitizeLang(
-    meta.lang ?? inferLangFromPath(relativeSource, supportedLangs, defaultLang),
+    meta.lang ?? directoryDefaults.lang ?? inferLangFromPath(relativeSource, supportedLangs, defaultLang),
     supportedLangs,
     defaultLang,
   )
 
   const slug = sanitizeSlug(
     meta.slug ?? extractSlugFromPath(filePath),
+    config.slugMode,
   )
 
   // Preserve directory structure from content directory
@@ -119,25 +284,42 @@ async function createPlan(
       : `${slug}.html`
   const outputPath = path.join(outputDir, ...outputName.split('/'))
 
+  // Precedence: global defaults, then directory defaults (root first), then the page
   const mergedMeta: PageMeta = {
     ...config.defaultMeta,
+    ...directoryDefaults,
     ...meta,
     slug,
     lang,
     output: outputName,
+    ...(publishState !== 'published' && { noindex: true }),
+    // Only the homepage's own `layout:` replaces the homepage template
+    ...(outputName === 'index.html' && config.homepageTemplatePath && !meta.layout && { layout: undefined }),
   }
 
-  let html = md.render(body)
-  html = obfuscateMailtoLinks(html)
-  html = appendUtmParams(html, config.utmParams, config.baseUrl)
-
-  return {
+  const location = path.relative(process.cwd(), sourcePath)
+  const source = await applyTransformHooks(config, 'beforeParse', body, mergedMeta, location)
+  const shortcodes = expandShortcodes(
+    // `{{data.*}}` shown in code is documentation, not a value to fill in
+    replaceOutsideCode(source, (text) => replaceDataPlaceholders(text, getDataForLang(siteData, lang))),
+    config.shortcodes ?? {},
+    // Errors point at lines in the file, below the front matter
+    { fileName: location, lineOffset: bodyLine - 1 },
+  )
+  const rendered = renderMarkdownWithToc(md, shortcodes.markdown, config.toc, mergedMeta.toc !== false)
+  const plan: RenderPlan = {
     sourcePath,
     outputPath,
     relativeOutput: outputName,
-    html,
+    html: await restoreShortcodes(rendered.html, shortcodes, mergedMeta),
     meta: mergedMeta,
+    toc: rendered.toc,
   }
+  let html = await applyTransformHooks(config, 'afterRender', plan.html, plan, location)
+  html = obfuscateMailtoLinks(html)
+  html = appendUtmParams(html, config.utmParams, config.baseUrl)
+
+  return { ...plan, html }
 }
 
 
@@ -0,0 +1,71 @@
+import { test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdir, writeFile, rm } from 'node:fs/promises'
+import path from 'node:path'
+import { createDirectoryDefaultsResolver } from './cascade.js'
+
+const TEST_DIR = path.join(process.cwd(), '.test-cascade')
+const contentDir = path.join(TEST_DIR, 'content')
+
+beforeEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+  await mkdir(path.join(contentDir, 'classes', 'aerial'), { recursive: true })
+  await mkdir(path.join(contentDir, 'fr', 'classes'), { recursive: true })
+})
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+})
+
+test('createDirectoryDefaultsResolver - nearer directories override parents', async () => {
+  await writeFile(path.join(contentDir, '_meta.json'), JSON.stringify({ sidebarTitle: 'Studio', theme: 'light' }))
+  await writeFile(
+    path.join(contentDir, 'classes', '_defaults.md'),
+    '---\nbackLinkHref: /classes\nbackLinkLabel: All classes\nsidebarTitle: Classes\n---\nIgnored body\n',
+  )
+  await writeFile(path.join(contentDir, 'classes', 'aerial', '_meta.json'), JSON.stringify({ sidebarTitle: 'Aerial' }))
+
+  const resolve = createDirectoryDefaultsResolver(contentDir)
+
+  expect(await resolve(path.join(contentDir, 'index.md'))).toEqual({ sidebarTitle: 'Studio', theme: 'light' })
+  expect(await resolve(path.join(contentDir, 'classes', 'beginner.md'))).toEqual({
+    sidebarTitle: 'Classes',
+    theme: 'light',
+    backLinkHref: '/classes',
+    backLinkLabel: 'All classes',
+  })
+  expect(await resolve(path.join(contentDir, 'classes', 'aerial', 'silks.md'))).toMatchObject({
+    sidebarTitle: 'Aerial',
+    backLinkHref: '/classes',
+  })
+})
+
+test('createDirectoryDefaultsResolver - _defaults.md overrides _meta.json in the same directory', async () => {
+  await writeFile(path.join(contentDir, 'classes', '_meta.json'), JSON.stringify({ backLinkLabel: 'JSON', order: 1 }))
+  await writeFile(path.join(contentDir, 'classes', '_defaults.md'), '---\nbackLinkLabel: Markdown\n---\n')
+
+  const resolve = createDirectoryDefaultsResolver(contentDir)
+  expect(await resolve(path.join(contentDir, 'classes', 'page.md'))).toEqual({ backLinkLabel: 'Markdown', order: 1 })
+})
+
+test('createDirectoryDefaultsResolver - language directories cascade too', async () => {
+  await writeFile(path.join(contentDir, 'fr', '_meta.json'), JSON.stringify({ backLinkLabel: 'Retour' }))
+  await writeFile(path.join(contentDir, 'fr', 'classes', '_meta.json'), JSON.stringify({ backLinkHref: '/fr/classes' }))
+
+  const resolve = createDirectoryDefaultsResolver(contentDir)
+  expect(await resolve(path.join(contentDir, 'fr', 'classes', 'page.md'))).toEqual({
+    backLinkLabel: 'Retour',
+    backLinkHref: '/fr/classes',
+  })
+  expect(await resolve(path.join(contentDir, 'classes', 'page.md'))).toEqual({})
+})
+
+test('createDirectoryDefaultsResolver - invalid _meta.json fails with its path', async () => {
+  const metaPath = path.relative(process.cwd(), path.join(contentDir, 'classes', '_meta.json'))
+  await writeFile(path.join(contentDir, 'classes', '_meta.json'), '{ "sidebarTitle": "Classes", }')
+  await expect(createDirectoryDefaultsResolver(contentDir)(path.join(contentDir, 'classes', 'page.md')))
+    .rejects.toThrow(`${metaPath}: invalid JSON`)
+
+  await writeFile(path.join(contentDir, 'classes', '_meta.json'), '["sidebarTitle"]')
+  await expect(createDirectoryDefaultsResolver(contentDir)(path.join(contentDir, 'classes', 'page.md')))
+    .rejects.toThrow(`${metaPath}: expected a JSON object of front matter values, found an array`)
+})
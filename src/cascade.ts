@@ -0,0 +1,59 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { FrontMatter } from './config.js'
+import { extractFrontMatter, parseMetaFile } from './frontmatter.js'
+
+export const DIRECTORY_DEFAULTS_FILES = ['_meta.json', '_defaults.md']
+
+export type DirectoryDefaultsResolver = (sourcePath: string) => Promise<FrontMatter>
+
+/**
+ * Creates a resolver returning the cascaded `_meta.json`/`_defaults.md`
+ * values for a page: the content root first, then each directory down to
+ * the page's own, so nearer directories win. Language directories are
+ * ordinary directories here (`fr/_meta.json` applies to all French pages).
+ * Results are cached per directory for the lifetime of the resolver.
+ */
+export function createDirectoryDefaultsResolver(contentDir: string): DirectoryDefaultsResolver {
+  const root = path.resolve(contentDir)
+  const cache = new Map<string, Promise<FrontMatter>>()
+
+  const loadCascade = (dir: string): Promise<FrontMatter> => {
+    const cached = cache.get(dir)
+    if (cached) {
+      return cached
+    }
+    const parent = path.dirname(dir)
+    const isRoot = dir === root || !dir.startsWith(`${root}${path.sep}`)
+    const loaded = Promise.all([
+      isRoot ? Promise.resolve({}) : loadCascade(parent),
+      loadDirectoryDefaults(dir),
+    ]).then(([inherited, own]) => ({ ...inherited, ...own }))
+    cache.set(dir, loaded)
+    return loaded
+  }
+
+  return (sourcePath: string) => loadCascade(path.dirname(path.resolve(sourcePath)))
+}
+
+async function loadDirectoryDefaults(dir: string): Promise<FrontMatter> {
+  const [json, markdown] = await Promise.all(
+    DIRECTORY_DEFAULTS_FILES.map((name) => readOptional(path.join(dir, name))),
+  )
+  const relative = (name: string): string => path.relative(process.cwd(), path.join(dir, name))
+
+  const fromJson = json !== null ? parseMetaFile(json, relative('_meta.json')) : {}
+  const fromMarkdown = markdown !== null
+    ? extractFrontMatter(markdown, relative('_defaults.md')).meta
+    : {}
+
+  return { ...fromJson, ...fromMarkdown }
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, 'utf-8')
+  } catch {
+    return null
+  }
+}
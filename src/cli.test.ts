@@ -0,0 +1,78 @@
+import { test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdir, writeFile, rm, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { runCli, EXIT_SUCCESS, EXIT_FAILURE, EXIT_USAGE } from './cli.js'
+
+const TEST_DIR = path.join(process.cwd(), '.test-cli')
+const contentDir = path.join(TEST_DIR, 'content')
+const outputDir = path.join(TEST_DIR, 'docs')
+const templatePath = path.join(TEST_DIR, 'template.html')
+const configPath = path.join(TEST_DIR, 'config.json')
+
+beforeEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+  await mkdir(contentDir, { recursive: true })
+  await writeFile(path.join(contentDir, 'index.md'), '---\ntitle: Home\n---\n# Home\n')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body>{{BODY}}</body>
+</html>`,
+  )
+  await writeFile(
+    configPath,
+    JSON.stringify({
+      defaultMeta: {
+        title: 'Test Site',
+        description: 'Test',
+        sidebarTitle: 'Test',
+        sidebarSummary: 'Test',
+        backLinkHref: '/',
+        backLinkLabel: 'Back',
+      },
+    }),
+  )
+})
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+})
+
+const flags = [
+  '--config', configPath,
+  '--content-dir', contentDir,
+  '--output-dir', outputDir,
+  '--template', templatePath,
+  '--base-url', 'https://example.com',
+]
+
+test('runCli - build writes HTML using config file and flags', async () => {
+  expect(await runCli(['build', ...flags])).toBe(EXIT_SUCCESS)
+  const html = await readFile(path.join(outputDir, 'index.html'), 'utf-8')
+  expect(html).toContain('<title>Home</title>')
+})
+
+test('runCli - sitemap writes sitemap.xml without rendering HTML', async () => {
+  expect(await runCli(['sitemap', ...flags])).toBe(EXIT_SUCCESS)
+  const sitemap = await readFile(path.join(outputDir, 'sitemap.xml'), 'utf-8')
+  expect(sitemap).toContain('<loc>https://example.com/</loc>')
+  const htmlExists = await readFile(path.join(outputDir, 'index.html')).then(() => true, () => false)
+  expect(htmlExists).toBe(false)
+})
+
+test('runCli - check-links fails with exit code 1 on broken links', async () => {
+  await mkdir(outputDir, { recursive: true })
+  await writeFile(path.join(outputDir, 'index.html'), '<a href="/missing">Missing</a>')
+  expect(await runCli(['check-links', ...flags])).toBe(EXIT_FAILURE)
+})
+
+test('runCli - invalid usage exits with code 2', async () => {
+  expect(await runCli([])).toBe(EXIT_USAGE)
+  expect(await runCli(['deploy'])).toBe(EXIT_USAGE)
+  expect(await runCli(['build', '--unknown-flag'])).toBe(EXIT_USAGE)
+  expect(await runCli(['build', '--content-dir', contentDir])).toBe(EXIT_USAGE)
+  expect(await runCli(['dev', ...flags, '--port', 'abc'])).toBe(EXIT_USAGE)
+  expect(await runCli(['--help'])).toBe(EXIT_SUCCESS)
+})
@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+import { mkdir } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import type { BuilderConfig, ConfigOverlay } from './config.js'
+import { getDefaultLang } from './config.js'
+import { loadConfig } from './config-loader.js'
+import { build, createPlans } from './builder.js'
+import { startDevServer } from './dev-server.js'
+import { checkLinks } from './link-checker.js'
+import { writeSitemap } from './sitemap.js'
+import { ensureTranslations } from './translations.js'
+import { logError } from './utils.js'
+
+export const EXIT_SUCCESS = 0
+export const EXIT_FAILURE = 1
+export const EXIT_USAGE = 2
+
+const COMMANDS = ['build', 'dev', 'check-links', 'translate', 'sitemap'] as const
+type Command = (typeof COMMANDS)[number]
+
+const USAGE = `Usage: simple-markdown-builder <command> [options]
+
+Commands:
+  build                 Build HTML, sitemap and check links
+  dev                   Build, watch for changes and serve the output
+  check-links           Check internal links in the output directory
+  translate             Create or update translated markdown files
+  sitemap               Write sitemap.xml without rendering HTML
+
+Options:
+  -c, --config <path>           Config file (default: simple-markdown-builder.config.{ts,js,json})
+  -e, --env <name>              Apply an overlay from the config's environments
+      --content-dir <dir>       Source markdown directory (default: content)
+      --output-dir <dir>        Output HTML directory (default: docs)
+      --base-url <url>          Base URL for absolute links
+      --template <path>         HTML template file
+      --homepage-template <path>
+                                Separate template for index.html
+      --partials-dir <dir>      Directory for {{> name}} partials (default: partials next to the template)
+      --clean                   Remove HTML files from the output directory first
+      --skip-link-check         Skip link validation after building
+      --no-translations         Disable translations
+      --include-drafts          Render drafts and scheduled pages (noindex); default for dev
+      --no-drafts               Skip drafts in the dev server
+      --strict-templates        Fail on unresolved {{...}} placeholders in templates
+      --port <number>           Dev server port (default: 4173)
+      --refresh-translations    Re-translate every page, even if up to date
+  -h, --help                    Show this help
+
+Exit codes: 0 success, 1 build or link check failure, 2 invalid usage.`
+
+const OPTIONS = {
+  config: { type: 'string', short: 'c' },
+  env: { type: 'string', short: 'e' },
+  'content-dir': { type: 'string' },
+  'output-dir': { type: 'string' },
+  'base-url': { type: 'string' },
+  template: { type: 'string' },
+  'homepage-template': { type: 'string' },
+  'partials-dir': { type: 'string' },
+  clean: { type: 'boolean' },
+  'skip-link-check': { type: 'boolean' },
+  'no-translations': { type: 'boolean' },
+  'include-drafts': { type: 'boolean' },
+  'no-drafts': { type: 'boolean' },
+  'strict-templates': { type: 'boolean' },
+  port: { type: 'string' },
+  'refresh-translations': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const
+
+type CliValues = ReturnType<typeof parseCliArgs>['values']
+
+class UsageError extends Error {}
+
+function parseCliArgs(argv: readonly string[]) {
+  return parseArgs({ args: [...argv], options: OPTIONS, allowPositionals: true, strict: true })
+}
+
+/**
+ * Runs the CLI and resolves with the process exit code instead of exiting,
+ * so it can be driven from tests and wrapper scripts.
+ */
+export async function runCli(argv: readonly string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>
+  try {
+    parsed = parseCliArgs(argv)
+  } catch (error) {
+    logError(error instanceof Error ? error.message : String(error))
+    console.error(USAGE)
+    return EXIT_USAGE
+  }
+
+  const { values, positionals } = parsed
+  const [commandName, ...extra] = positionals
+
+  if (values.help || !commandName) {
+    console.log(USAGE)
+    return values.help ? EXIT_SUCCESS : EXIT_USAGE
+  }
+  if (!isCommand(commandName) || extra.length > 0) {
+    logError(`Unknown command: ${[commandName, ...extra].join(' ')}`)
+    console.error(USAGE)
+    return EXIT_USAGE
+  }
+
+  try {
+    const config = await resolveConfig(values)
+    await runCommand(commandName, config, values)
+    return EXIT_SUCCESS
+  } catch (error) {
+    if (error instanceof UsageError) {
+      logError(error.message)
+      return EXIT_USAGE
+    }
+    logError(`${commandName} failed:`, error instanceof Error ? error.message : String(error))
+    return EXIT_FAILURE
+  }
+}
+
+function isCommand(value: string): value is Command {
+  return (COMMANDS as readonly string[]).includes(value)
+}
+
+async function runCommand(command: Command, config: BuilderConfig, values: CliValues): Promise<void> {
+  const contentDir = path.resolve(config.contentDir ?? 'content')
+  const outputDir = path.resolve(config.outputDir ?? 'docs')
+
+  switch (command) {
+    case 'build':
+      await build(config)
+      return
+    case 'dev':
+      await startDevServer(config, {
+        port: values.port !== undefined ? parsePort(values.port) : undefined,
+        outputDir: config.outputDir,
+        clean: config.clean,
+        refreshTranslations: values['refresh-translations'],
+      })
+      return
+    case 'check-links':
+      await checkLinks(outputDir, config.slugMode)
+      return
+    case 'translate':
+      if (config.translations === false || !config.translations) {
+        throw new UsageError('Translations are not configured.')
+      }
+      await ensureTranslations(config, contentDir, values['refresh-translations'] ?? false)
+      return
+    case 'sitemap': {
+      const plans = await createPlans(config)
+      await mkdir(outputDir, { recursive: true })
+      await writeSitemap(plans, outputDir, config.baseUrl, getDefaultLang(config))
+      return
+    }
+  }
+}
+
+function parsePort(value: string): number {
+  const port = Number(value)
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new UsageError(`Invalid port: ${value}`)
+  }
+  return port
+}
+
+async function resolveConfig(values: CliValues): Promise<BuilderConfig> {
+  const overrides: ConfigOverlay = {
+    ...(values['content-dir'] !== undefined && { contentDir: values['content-dir'] }),
+    ...(values['output-dir'] !== undefined && { outputDir: values['output-dir'] }),
+    ...(values['base-url'] !== undefined && { baseUrl: values['base-url'] }),
+    ...(values.template !== undefined && { templatePath: values.template }),
+    ...(values['homepage-template'] !== undefined && { homepageTemplatePath: values['homepage-template'] }),
+    ...(values['partials-dir'] !== undefined && { partialsDir: values['partials-dir'] }),
+    ...(values.clean && { clean: true }),
+    ...(values['skip-link-check'] && { skipLinkCheck: true }),
+    ...(values['no-translations'] && { translations: false as const }),
+    ...(values['include-drafts'] && { includeDrafts: true }),
+    ...(values['no-drafts'] && { includeDrafts: false }),
+    ...(values['strict-templates'] && { strictTemplates: true }),
+  }
+
+  try {
+    return await loadConfig({ configPath: values.config, env: values.env, overrides })
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error))
+  }
+}
+
+if (import.meta.main) {
+  // Set rather than exit so the dev server keeps running after startup
+  process.exitCode = await runCli(process.argv.slice(2))
+}
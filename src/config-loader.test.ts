@@ -0,0 +1,164 @@
+import { test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdir, writeFile, rm } from 'node:fs/promises'
+import path from 'node:path'
+import { applyEnvironment, findConfigFile, loadConfig, validateConfig } from './config-loader.js'
+
+const TEST_DIR = path.join(process.cwd(), '.test-config-loader')
+
+const defaultMeta = {
+  title: 'Test Site',
+  description: 'Test',
+  sidebarTitle: 'Test',
+  sidebarSummary: 'Test',
+  backLinkHref: '/',
+  backLinkLabel: 'Back',
+}
+
+beforeEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+  await mkdir(TEST_DIR, { recursive: true })
+})
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+})
+
+test('findConfigFile - prefers ts, then js, then json', async () => {
+  expect(await findConfigFile(TEST_DIR)).toBeNull()
+  await writeFile(path.join(TEST_DIR, 'simple-markdown-builder.config.json'), '{}')
+  expect(await findConfigFile(TEST_DIR)).toBe(path.join(TEST_DIR, 'simple-markdown-builder.config.json'))
+  await writeFile(path.join(TEST_DIR, 'simple-markdown-builder.config.ts'), 'export default {}')
+  expect(await findConfigFile(TEST_DIR)).toBe(path.join(TEST_DIR, 'simple-markdown-builder.config.ts'))
+})
+
+test('loadConfig - discovers a TypeScript config file', async () => {
+  await writeFile(
+    path.join(TEST_DIR, 'simple-markdown-builder.config.ts'),
+    `export default {
+  baseUrl: 'https://example.com',
+  templatePath: 'template.html',
+  defaultMeta: ${JSON.stringify(defaultMeta)},
+}`,
+  )
+  const config = await loadConfig({ cwd: TEST_DIR })
+  expect(config.baseUrl).toBe('https://example.com')
+  expect(config.defaultMeta.title).toBe('Test Site')
+})
+
+test('loadConfig - applies environment overlay and overrides', async () => {
+  await writeFile(
+    path.join(TEST_DIR, 'simple-markdown-builder.config.json'),
+    JSON.stringify({
+      baseUrl: 'https://preview.example.com',
+      templatePath: 'template.html',
+      defaultMeta,
+      utmParams: { utm_source: 'preview' },
+      environments: {
+        production: {
+          baseUrl: 'https://example.com',
+          utmParams: { utm_source: 'site', utm_medium: 'web' },
+          defaultMeta: { title: 'Production Site' },
+        },
+      },
+    }),
+  )
+
+  const preview = await loadConfig({ cwd: TEST_DIR, env: '' })
+  expect(preview.baseUrl).toBe('https://preview.example.com')
+  expect('environments' in preview).toBe(false)
+
+  const production = await loadConfig({
+    cwd: TEST_DIR,
+    env: 'production',
+    overrides: { outputDir: 'dist' },
+  })
+  expect(production.baseUrl).toBe('https://example.com')
+  expect(production.utmParams).toEqual({ utm_source: 'site', utm_medium: 'web' })
+  expect(production.defaultMeta.title).toBe('Production Site')
+  expect(production.defaultMeta.description).toBe('Test')
+  expect(production.outputDir).toBe(path.join(TEST_DIR, 'dist'))
+
+  await expect(loadConfig({ cwd: TEST_DIR, env: 'staging' })).rejects.toThrow(
+    'Unknown environment "staging". Available: production',
+  )
+})
+
+test('loadConfig - resolves paths against the config file directory', async () => {
+  const siteDir = path.join(TEST_DIR, 'site')
+  await mkdir(siteDir, { recursive: true })
+  await writeFile(
+    path.join(siteDir, 'site.config.json'),
+    JSON.stringify({
+      baseUrl: 'https://example.com',
+      templatePath: 'templates/page.html',
+      layouts: { post: 'templates/post.html' },
+      outputDir: '../public',
+      defaultMeta,
+      environments: { production: { baseUrl: 'https://prod.example.com' } },
+    }),
+  )
+
+  const previous = process.env.NODE_ENV
+  process.env.NODE_ENV = 'production'
+  try {
+    const config = await loadConfig({ cwd: TEST_DIR, configPath: 'site/site.config.json', overrides: { partialsDir: 'parts' } })
+    expect(config.templatePath).toBe(path.join(siteDir, 'templates', 'page.html'))
+    expect(config.layouts).toEqual({ post: path.join(siteDir, 'templates', 'post.html') })
+    expect(config.outputDir).toBe(path.join(TEST_DIR, 'public'))
+    expect(config.contentDir).toBe(path.join(siteDir, 'content'))
+    expect(config.partialsDir).toBe(path.join(TEST_DIR, 'parts'))
+    // Environments are only selected explicitly
+    expect(config.baseUrl).toBe('https://example.com')
+  } finally {
+    if (previous === undefined) {
+      delete process.env.NODE_ENV
+    } else {
+      process.env.NODE_ENV = previous
+    }
+  }
+})
+
+test('applyEnvironment - ignores unknown optional environments', () => {
+  expect(applyEnvironment({ baseUrl: 'https://example.com' }, 'development', false)).toEqual({
+    baseUrl: 'https://example.com',
+  })
+})
+
+test('validateConfig - reports all missing required fields', () => {
+  expect(() => validateConfig({}, 'config site.json')).toThrow(
+    /Invalid config site\.json:\n- baseUrl is required.*\n- templatePath is required.*\n- defaultMeta is required/,
+  )
+  expect(() =>
+    validateConfig({
+      baseUrl: 'example.com',
+      templatePath: 'template.html',
+      defaultMeta: { title: 'Only title' } as never,
+    }),
+  ).toThrow(/baseUrl must be an absolute URL.*\n- defaultMeta is missing description/)
+})
+
+test('validateConfig - rejects malformed plugins and hooks', () => {
+  const base = {
+    baseUrl: 'https://example.com',
+    templatePath: 'template.html',
+    defaultMeta: {
+      title: 'Site',
+      description: 'Site',
+      sidebarTitle: 'Site',
+      sidebarSummary: 'Site',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+    },
+  }
+  expect(() => validateConfig({ ...base, markdownPlugins: ['markdown-it-footnote'] as never })).toThrow(
+    'markdownPlugins must be an array of plugins or [plugin, ...options] tuples',
+  )
+  expect(() => validateConfig({ ...base, hooks: { afterBuild: 'deploy' } as never })).toThrow(
+    'hooks must be an object of functions or an array of them',
+  )
+  expect(() => validateConfig({ ...base, hooks: [{ afterBuild: () => {} }] })).not.toThrow()
+})
+
+test('loadConfig - explains when no config file was found', async () => {
+  await expect(loadConfig({ cwd: TEST_DIR })).rejects.toThrow('no simple-markdown-builder.config.ts')
+})
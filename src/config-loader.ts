@@ -0,0 +1,350 @@
+import { access, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { BuilderConfig, ConfigFile, ConfigOverlay } from './config.js'
+import { findClosestMatch, logWarning } from './utils.js'
+
+export const CONFIG_FILE_NAMES = [
+  'simple-markdown-builder.config.ts',
+  'simple-markdown-builder.config.js',
+  'simple-markdown-builder.config.json',
+]
+
+const KNOWN_CONFIG_KEYS = [
+  'contentDir',
+  'outputDir',
+  'baseUrl',
+  'defaultMeta',
+  'templatePath',
+  'homepageTemplatePath',
+  'partialsDir',
+  'i18nDir',
+  'layouts',
+  'languageSwitcher',
+  'headTags',
+  'structuredData',
+  'toc',
+  'slugMode',
+  'markdownOptions',
+  'shortcodes',
+  'admonitions',
+  'highlight',
+  'markdownPlugins',
+  'hooks',
+  'translations',
+  'utmParams',
+  'skipLinkCheck',
+  'clean',
+  'frontMatterSchema',
+  'includeDrafts',
+  'strictTemplates',
+  'environments',
+]
+
+const REQUIRED_META_FIELDS = [
+  'title',
+  'description',
+  'sidebarTitle',
+  'sidebarSummary',
+  'backLinkHref',
+  'backLinkLabel',
+]
+
+export interface LoadConfigOptions {
+  /** Directory searched for a config file (default: `process.cwd()`) */
+  readonly cwd?: string
+  /** Explicit config file; skips discovery */
+  readonly configPath?: string
+  /** Environment overlay to apply from `environments` */
+  readonly env?: string
+  /** Values applied last, e.g. from command-line flags */
+  readonly overrides?: ConfigOverlay
+}
+
+/**
+ * Typed helper for `simple-markdown-builder.config.ts`:
+ * `export default defineConfig({ ... })`.
+ */
+export function defineConfig(config: ConfigFile): ConfigFile {
+  return config
+}
+
+export async function findConfigFile(cwd: string = process.cwd()): Promise<string | null> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const candidate = path.join(cwd, name)
+    try {
+      await access(candidate)
+      return candidate
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null
+}
+
+export async function loadConfigFile(configPath: string): Promise<Partial<ConfigFile>> {
+  const resolved = path.resolve(configPath)
+  let loaded: unknown
+  try {
+    if (resolved.endsWith('.json')) {
+      loaded = JSON.parse(await readFile(resolved, 'utf-8'))
+    } else {
+      const module = (await import(pathToFileURL(resolved).href)) as { default?: unknown }
+      loaded = module.default
+    }
+  } catch (error) {
+    // Bun imports TypeScript directly; most Node versions cannot
+    const hint = resolved.endsWith('.ts') && !process.versions.bun
+      ? ' (TypeScript config files need Bun, e.g. `bunx simple-markdown-builder`; under Node use a .js or .json config)'
+      : ''
+    throw new Error(
+      `Could not load config ${path.relative(process.cwd(), resolved)}: ${error instanceof Error ? error.message : String(error)}${hint}`,
+    )
+  }
+  if (!isPlainObject(loaded)) {
+    throw new Error(
+      `Config ${path.relative(process.cwd(), resolved)} must export an object (use \`export default\`)`,
+    )
+  }
+  return loaded as Partial<ConfigFile>
+}
+
+/**
+ * Merges the named overlay from `environments` over the base config. Object
+ * values such as `defaultMeta` and `utmParams` are merged one level deep;
+ * everything else is replaced.
+ */
+export function applyEnvironment(
+  config: Partial<ConfigFile>,
+  env: string | undefined,
+  required: boolean = true,
+): Partial<BuilderConfig> {
+  const { environments, ...base } = config
+  if (!env) {
+    return base
+  }
+  const overlay = environments?.[env]
+  if (!overlay) {
+    if (required) {
+      const available = Object.keys(environments ?? {})
+      throw new Error(
+        `Unknown environment "${env}". ${available.length > 0 ? `Available: ${available.join(', ')}` : 'No environments are configured.'}`,
+      )
+    }
+    return base
+  }
+  return mergeConfig(base, overlay)
+}
+
+export function mergeConfig(
+  base: Partial<BuilderConfig>,
+  overlay: ConfigOverlay,
+): Partial<BuilderConfig> {
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(overlay)) {
+    const existing = merged[key]
+    merged[key] = isPlainObject(existing) && isPlainObject(value) ? { ...existing, ...value } : value
+  }
+  return merged as Partial<BuilderConfig>
+}
+
+/**
+ * Checks that a loaded config has the shape of `BuilderConfig`, reporting
+ * every problem at once. Unknown keys only produce a warning.
+ */
+export function validateConfig(config: Partial<BuilderConfig>, source: string = 'config'): BuilderConfig {
+  const problems: string[] = []
+  const record = config as Record<string, unknown>
+
+  if (typeof config.baseUrl !== 'string' || config.baseUrl === '') {
+    problems.push('baseUrl is required (e.g. "https://example.com")')
+  } else if (!isAbsoluteUrl(config.baseUrl)) {
+    problems.push(`baseUrl must be an absolute URL, got "${config.baseUrl}"`)
+  }
+
+  if (typeof config.templatePath !== 'string' || config.templatePath === '') {
+    problems.push('templatePath is required (path to the HTML template)')
+  }
+
+  if (!isPlainObject(config.defaultMeta)) {
+    problems.push(`defaultMeta is required with ${REQUIRED_META_FIELDS.join(', ')}`)
+  } else {
+    const meta = config.defaultMeta as Record<string, unknown>
+    const missing = REQUIRED_META_FIELDS.filter((field) => typeof meta[field] !== 'string')
+    if (missing.length > 0) {
+      problems.push(`defaultMeta is missing ${missing.join(', ')}`)
+    }
+  }
+
+  for (const key of ['contentDir', 'outputDir', 'homepageTemplatePath', 'partialsDir', 'i18nDir']) {
+    if (record[key] !== undefined && typeof record[key] !== 'string') {
+      problems.push(`${key} must be a string`)
+    }
+  }
+  for (const key of ['skipLinkCheck', 'clean', 'includeDrafts', 'strictTemplates']) {
+    if (record[key] !== undefined && typeof record[key] !== 'boolean') {
+      problems.push(`${key} must be a boolean`)
+    }
+  }
+  for (const key of ['markdownOptions', 'frontMatterSchema', 'languageSwitcher', 'headTags', 'toc']) {
+    if (record[key] !== undefined && !isPlainObject(record[key])) {
+      problems.push(`${key} must be an object`)
+    }
+  }
+
+  if (config.utmParams !== undefined) {
+    const invalid = !isPlainObject(config.utmParams) ||
+      Object.values(config.utmParams).some((value) => typeof value !== 'string')
+    if (invalid) {
+      problems.push('utmParams must be an object of string values')
+    }
+  }
+
+  if (config.shortcodes !== undefined) {
+    const invalid = !isPlainObject(config.shortcodes) ||
+      Object.values(config.shortcodes).some((shortcode) => typeof shortcode !== 'function')
+    if (invalid) {
+      problems.push('shortcodes must be an object of functions')
+    }
+  }
+
+  if (config.slugMode !== undefined && !['auto', 'transliterate', 'unicode'].includes(config.slugMode)) {
+    problems.push('slugMode must be "auto", "transliterate" or "unicode"')
+  }
+
+  if (config.admonitions !== undefined && config.admonitions !== false) {
+    const classNames = isPlainObject(config.admonitions) ? config.admonitions.classNames : undefined
+    const invalid = !isPlainObject(config.admonitions) ||
+      (classNames !== undefined &&
+        (!isPlainObject(classNames) || Object.values(classNames).some((value) => typeof value !== 'string')))
+    if (invalid) {
+      problems.push('admonitions must be false or an object with classNames of string values')
+    }
+  }
+
+  if (config.highlight !== undefined && typeof config.highlight !== 'boolean') {
+    const theme = isPlainObject(config.highlight) ? config.highlight.theme : undefined
+    if (!isPlainObject(config.highlight) || ![undefined, false, 'light', 'dark'].includes(theme as string | undefined)) {
+      problems.push('highlight must be a boolean or an object with theme "light", "dark" or false')
+    }
+  }
+
+  if (config.markdownPlugins !== undefined) {
+    const invalid = !Array.isArray(config.markdownPlugins) ||
+      config.markdownPlugins.some((plugin) =>
+        typeof plugin !== 'function' && !(Array.isArray(plugin) && typeof plugin[0] === 'function'))
+    if (invalid) {
+      problems.push('markdownPlugins must be an array of plugins or [plugin, ...options] tuples')
+    }
+  }
+
+  if (config.hooks !== undefined) {
+    const hookSets: unknown[] = Array.isArray(config.hooks) ? config.hooks : [config.hooks]
+    const invalid = hookSets.some((hooks) =>
+      !isPlainObject(hooks) || Object.values(hooks).some((hook) => typeof hook !== 'function'))
+    if (invalid) {
+      problems.push('hooks must be an object of functions or an array of them')
+    }
+  }
+
+  if (config.structuredData !== undefined && config.structuredData !== false && !isPlainObject(config.structuredData)) {
+    problems.push('structuredData must be false or an object')
+  }
+
+  if (config.layouts !== undefined) {
+    const invalid = !isPlainObject(config.layouts) ||
+      Object.values(config.layouts).some((value) => typeof value !== 'string')
+    if (invalid) {
+      problems.push('layouts must be an object mapping layout names to template paths')
+    }
+  }
+
+  if (config.translations !== undefined && config.translations !== false) {
+    if (!isPlainObject(config.translations) || !Array.isArray(config.translations.targetLanguages)) {
+      problems.push('translations must be false or an object with targetLanguages')
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${source}:\n${problems.map((problem) => `- ${problem}`).join('\n')}`)
+  }
+
+  for (const key of Object.keys(record)) {
+    if (!KNOWN_CONFIG_KEYS.includes(key)) {
+      const suggestion = findClosestMatch(key, KNOWN_CONFIG_KEYS)
+      logWarning(`Unknown option "${key}" in ${source}${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`)
+    }
+  }
+
+  return config as BuilderConfig
+}
+
+const PATH_CONFIG_KEYS = [
+  'contentDir',
+  'outputDir',
+  'templatePath',
+  'homepageTemplatePath',
+  'partialsDir',
+  'i18nDir',
+] as const
+
+// Defaults that would otherwise resolve against the working directory
+const DEFAULT_CONFIG_DIRS = { contentDir: 'content', outputDir: 'docs', i18nDir: 'i18n' }
+
+/**
+ * Discovers (or loads the given) config file, applies the environment
+ * overlay and overrides, then validates the result. Relative paths in the
+ * config file resolve against its directory, and those in `overrides`
+ * against `cwd`.
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<BuilderConfig> {
+  const cwd = path.resolve(options.cwd ?? process.cwd())
+  const configPath = options.configPath
+    ? path.resolve(cwd, options.configPath)
+    : await findConfigFile(cwd)
+
+  const fileConfig: Partial<ConfigFile> = configPath ? await loadConfigFile(configPath) : {}
+  const withEnvironment = applyEnvironment(fileConfig, options.env)
+  const config = mergeConfig(
+    resolveConfigPaths({ ...DEFAULT_CONFIG_DIRS, ...withEnvironment }, configPath ? path.dirname(configPath) : cwd),
+    resolveConfigPaths(options.overrides ?? {}, cwd),
+  )
+
+  const source = configPath
+    ? `config ${path.relative(process.cwd(), configPath)}`
+    : `config (no ${CONFIG_FILE_NAMES.join(', ')} found in ${cwd})`
+  return validateConfig(config, source)
+}
+
+/**
+ * Makes the file and directory options of `config` absolute, relative to
+ * `baseDir`. Values of the wrong type are left for `validateConfig`.
+ */
+function resolveConfigPaths<T extends ConfigOverlay>(config: T, baseDir: string): T {
+  const resolved: Record<string, unknown> = { ...config }
+  for (const key of PATH_CONFIG_KEYS) {
+    const value = config[key]
+    if (typeof value === 'string' && value !== '') {
+      resolved[key] = path.resolve(baseDir, value)
+    }
+  }
+  if (isPlainObject(config.layouts)) {
+    resolved.layouts = Object.fromEntries(
+      Object.entries(config.layouts).map(([name, value]) =>
+        [name, typeof value === 'string' ? path.resolve(baseDir, value) : value]),
+    )
+  }
+  return resolved as T
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    return Boolean(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
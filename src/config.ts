@@ -1,7 +1,25 @@
+import path from 'node:path'
 import type { TargetLanguageCode } from 'deepl-node'
-import type { Options as MarkdownItOptions } from 'markdown-it'
+import type { Options as MarkdownItOptions, PluginWithParams } from 'markdown-it'
+
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | readonly FrontMatterValue[]
+  | { readonly [key: string]: FrontMatterValue }
+
+/** Values loaded from `content/_data`, available as `{{data.key}}` */
+export interface DataContext {
+  readonly [key: string]: FrontMatterValue
+}
+
+export type FrontMatterFormat = 'yaml' | 'toml' | 'json'
 
 export interface FrontMatter {
+  readonly [key: string]: FrontMatterValue | undefined
   readonly title?: string
   readonly description?: string
   readonly sidebarTitle?: string
@@ -13,25 +31,64 @@ export interface FrontMatter {
   readonly translationOf?: string
   readonly translate?: string | boolean
   readonly noindex?: string | boolean
+  readonly draft?: string | boolean
+  readonly publishDate?: Date | string
+  readonly expiryDate?: Date | string
   readonly ogImage?: string
   readonly twitterImage?: string
+  readonly ogImageAlt?: string
+  /** `og:type`, e.g. `article` (default: `headTags.ogType` or `website`) */
+  readonly ogType?: string
+  readonly twitterCard?: string
+  /** `article:modified_time` for `ogType: article` pages */
+  readonly modifiedDate?: Date | string
+  /** JSON-LD type for the page, e.g. `BlogPosting`; `none` disables structured data */
+  readonly schemaType?: string
+  /** Key of `layouts` used to render the page */
+  readonly layout?: string
+  /** Set to `false` to leave `{{TOC}}` and `[[toc]]` empty */
+  readonly toc?: string | boolean
+  /** Title in `{{NAV}}` (default: `title`) */
+  readonly navTitle?: string
+  /** Set to `false` to hide the page, and pages below it, from `{{NAV}}` */
+  readonly nav?: string | boolean
 }
 
-export interface PageMeta {
+/**
+ * Site-wide front matter defaults. Any extra key (e.g. `heroImage`) is
+ * available to templates as `{{meta.heroImage}}`.
+ */
+export interface DefaultMeta {
+  readonly [key: string]: FrontMatterValue | undefined
   readonly title: string
   readonly description: string
   readonly sidebarTitle: string
   readonly sidebarSummary: string
   readonly backLinkHref: string
   readonly backLinkLabel: string
+  readonly ogImage?: string
+  readonly twitterImage?: string
+  readonly ogImageAlt?: string
+  readonly ogType?: string
+  readonly twitterCard?: string
+  readonly schemaType?: string
+  readonly layout?: string
+}
+
+export interface PageMeta extends DefaultMeta {
   readonly slug?: string
   readonly output: string
   readonly lang?: string
   readonly translationOf?: string
   readonly translate?: string | boolean
   readonly noindex?: string | boolean
-  readonly ogImage?: string
-  readonly twitterImage?: string
+  readonly draft?: string | boolean
+  readonly publishDate?: Date | string
+  readonly expiryDate?: Date | string
+  readonly modifiedDate?: Date | string
+  readonly toc?: string | boolean
+  readonly navTitle?: string
+  readonly nav?: string | boolean
 }
 
 export interface RenderPlan {
@@ -40,6 +97,8 @@ export interface RenderPlan {
   readonly relativeOutput: string
   readonly html: string
   readonly meta: PageMeta
+  /** Rendered table of contents for `{{TOC}}` */
+  readonly toc?: string
 }
 
 export interface iAlternateLink {
@@ -47,6 +106,128 @@ export interface iAlternateLink {
   readonly href: string
 }
 
+export interface LanguageSwitcherItem {
+  readonly lang: string
+  /** Native language name unless overridden in `languageSwitcher.labels` */
+  readonly label: string
+  /** Site-relative URL */
+  readonly href: string
+  readonly current: boolean
+  /** The page has no translation in this language; `href` is that language's home page */
+  readonly fallback: boolean
+}
+
+export interface LanguageSwitcherConfig {
+  /** Built-in markup: `pills` (default, Tailwind classes), `list` (`<nav><ul>`) or `dropdown` (`<details>`) */
+  readonly variant?: 'pills' | 'list' | 'dropdown'
+  /** Labels keyed by language code, e.g. `{ en: 'EN' }` */
+  readonly labels?: Readonly<Record<string, string>>
+  /** Replaces the built-in markup for `{{LANGUAGE_SWITCHER}}` */
+  readonly render?: (items: readonly LanguageSwitcherItem[], currentLang: string) => string
+}
+
+export interface HeadTagsConfig {
+  /** `og:site_name` */
+  readonly siteName?: string
+  /** `twitter:site`, e.g. `@studio` */
+  readonly twitterSite?: string
+  /** Default `og:type` (default: `website`); pages can set `ogType` */
+  readonly ogType?: string
+  /** Default `twitter:card` (default: `summary_large_image`); pages can set `twitterCard` */
+  readonly twitterCard?: 'summary' | 'summary_large_image' | 'app' | 'player'
+  /** `og:locale` values keyed by page language, e.g. `{ en: 'en_GB' }` */
+  readonly locales?: Readonly<Record<string, string>>
+  /** Warn about pages without `ogImage` (default: `true`) */
+  readonly warnMissingOgImage?: boolean
+}
+
+export interface StructuredDataConfig {
+  /** Published as `Organization` on the homepage and as article publisher (default name: `headTags.siteName`) */
+  readonly organization?: {
+    readonly name?: string
+    readonly url?: string
+    readonly logo?: string
+    readonly sameAs?: readonly string[]
+  }
+  /** Emit a `BreadcrumbList` derived from the output path (default: `true`) */
+  readonly breadcrumbs?: boolean
+}
+
+export interface TocConfig {
+  /** Shallowest heading level listed (default: 2) */
+  readonly minLevel?: number
+  /** Deepest heading level listed (default: 3) */
+  readonly maxLevel?: number
+}
+
+/** Pre-rendered HTML for page-specific placeholders such as `{{TOC}}` and `{{NAV}}` */
+export interface TemplateFragments {
+  readonly toc?: string
+  readonly nav?: string
+  readonly breadcrumbs?: string
+  readonly prevLink?: string
+  readonly nextLink?: string
+}
+
+/**
+ * Renders `{{< name key="value" >}}` in markdown. `content` is the HTML
+ * rendered with the page between `{{< name >}}` and `{{< /name >}}`, or
+ * `undefined` when the shortcode is used on its own.
+ */
+export type Shortcode = (
+  args: Readonly<Record<string, string>>,
+  content: string | undefined,
+  meta: PageMeta,
+) => string | Promise<string>
+
+export interface AdmonitionConfig {
+  /**
+   * Classes for each container type (default: `admonition admonition-<type>`
+   * for `note`, `warning` and `tip`). New keys add new types.
+   */
+  readonly classNames?: Readonly<Record<string, string>>
+  /** Class on the title paragraph (default: `admonition-title`) */
+  readonly titleClassName?: string
+}
+
+/**
+ * How slugs and heading ids treat non-ASCII text: `auto` turns `Équipement`
+ * into `equipement` and keeps letters from other scripts such as `日本語`;
+ * `transliterate` also spells Greek and Cyrillic in ASCII and drops what it
+ * can't; `unicode` keeps every letter and digit as written.
+ */
+export type SlugMode = 'auto' | 'transliterate' | 'unicode'
+
+export type HighlightTheme = 'light' | 'dark'
+
+export interface HighlightConfig {
+  /** Built-in colours written to `highlight.css` in the output directory; `false` to style the classes yourself (default: `light`) */
+  readonly theme?: HighlightTheme | false
+  /** Number every line; fences can override with `lineNumbers` or `noLineNumbers` (default: `false`) */
+  readonly lineNumbers?: boolean
+}
+
+/** A markdown-it plugin, or a plugin and the arguments to pass it, e.g. `[container, 'note']` */
+export type MarkdownPlugin = PluginWithParams | readonly [PluginWithParams, ...unknown[]]
+
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Build lifecycle hooks. The transform hooks return the new value; when
+ * several hook sets are configured they run in order, each receiving the
+ * previous one's result.
+ */
+export interface BuildHooks {
+  /** The markdown body, front matter removed, before it is rendered */
+  readonly beforeParse?: (raw: string, meta: PageMeta) => MaybePromise<string>
+  /** The rendered markdown, before mailto obfuscation and UTM parameters */
+  readonly afterRender?: (html: string, plan: RenderPlan) => MaybePromise<string>
+  /** The complete page, after the template is applied */
+  readonly beforeWrite?: (html: string, plan: RenderPlan) => MaybePromise<string>
+  /** Runs once every page, the sitemap and the link check are done */
+  readonly afterBuild?: (plans: readonly RenderPlan[]) => MaybePromise<void>
+}
+
 export interface MissingLink {
   readonly fromFile: string
   readonly href: string
@@ -59,6 +240,7 @@ export interface TranslatePlan {
   readonly targetLang: TargetLanguageCode
   readonly sourceBody: string
   readonly sourceMeta: FrontMatter
+  readonly sourceFormat: FrontMatterFormat
   readonly sourceRelativeDir: string
   readonly sourceFileName: string
 }
@@ -73,26 +255,103 @@ export interface TranslationConfig {
   readonly customGlossary?: Readonly<Partial<Record<TargetLanguageCode, Record<string, string>>>>
   readonly defaultLang?: string
   readonly supportedLangs?: readonly string[]
+  /** Fill keys missing from `i18n/<lang>.json` by translating the default language's strings */
+  readonly translateStrings?: boolean
+}
+
+export type FrontMatterFieldType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object'
+
+export interface FrontMatterFieldSchema {
+  readonly type?: FrontMatterFieldType | readonly FrontMatterFieldType[]
+  readonly required?: boolean
+  readonly enum?: readonly (string | number | boolean)[]
+}
+
+export interface FrontMatterSchema {
+  readonly fields?: Readonly<Record<string, FrontMatterFieldSchema>>
+  /** What to do with keys that are neither built-in, in `fields` nor in `defaultMeta` (default: `warn`) */
+  readonly unknownKeys?: 'allow' | 'warn' | 'error'
+}
+
+export interface FrontMatterDiagnostic {
+  readonly sourcePath: string
+  readonly line: number
+  readonly key?: string
+  readonly message: string
+  readonly severity: 'error' | 'warning'
 }
 
 export interface BuilderConfig {
   readonly contentDir?: string
   readonly outputDir?: string
   readonly baseUrl: string
-  readonly defaultMeta: Omit<PageMeta, 'slug' | 'output' | 'lang' | 'translationOf' | 'translate' | 'noindex'>
+  readonly defaultMeta: DefaultMeta
   readonly templatePath: string
   readonly homepageTemplatePath?: string
+  /** Directory for `{{> name}}` partials (default: `partials` next to `templatePath`) */
+  readonly partialsDir?: string
+  /** Directory of `<lang>.json` UI string dictionaries for `{{t:key}}` (default: `i18n`) */
+  readonly i18nDir?: string
+  /** Templates selectable with `layout:` in front matter, keyed by name */
+  readonly layouts?: Readonly<Record<string, string>>
+  readonly languageSwitcher?: LanguageSwitcherConfig
+  readonly headTags?: HeadTagsConfig
+  /** JSON-LD generation; `false` turns it off */
+  readonly structuredData?: false | StructuredDataConfig
+  /** Heading levels listed by `{{TOC}}` and `[[toc]]` */
+  readonly toc?: TocConfig
+  /** Non-ASCII handling in page slugs and heading ids (default: `auto`) */
+  readonly slugMode?: SlugMode
   readonly markdownOptions?: MarkdownItOptions
+  /** Functions for `{{< name >}}` shortcodes in markdown, keyed by name */
+  readonly shortcodes?: Readonly<Record<string, Shortcode>>
+  /** `:::note` style containers; `false` turns them off */
+  readonly admonitions?: false | AdmonitionConfig
+  /** Build-time syntax highlighting for fenced code blocks (default: off) */
+  readonly highlight?: boolean | HighlightConfig
+  /** markdown-it plugins, applied in order after the built-in ones */
+  readonly markdownPlugins?: readonly MarkdownPlugin[]
+  readonly hooks?: BuildHooks | readonly BuildHooks[]
   readonly translations?: false | TranslationConfig
   readonly utmParams?: UtmParams
   readonly skipLinkCheck?: boolean
   readonly clean?: boolean
+  readonly frontMatterSchema?: FrontMatterSchema
+  /** Render drafts, scheduled and expired pages (marked noindex) instead of skipping them */
+  readonly includeDrafts?: boolean
+  /** Fail the build on unresolved `{{...}}` placeholders, missing `{{TITLE}}`/`{{BODY}}` or a duplicate `</head>` */
+  readonly strictTemplates?: boolean
+}
+
+/** Partial config merged over a base, e.g. an environment in `environments` */
+export type ConfigOverlay = Omit<Partial<BuilderConfig>, 'defaultMeta'> & {
+  readonly defaultMeta?: Partial<DefaultMeta>
+}
+
+export interface ConfigFile extends BuilderConfig {
+  readonly environments?: Readonly<Record<string, ConfigOverlay>>
 }
 
 export function getDefaultLang(config: BuilderConfig): string {
   return config.translations !== false ? (config.translations?.defaultLang ?? 'en') : 'en'
 }
 
+export function getPartialsDir(config: BuilderConfig): string {
+  return path.resolve(config.partialsDir ?? path.join(path.dirname(config.templatePath), 'partials'))
+}
+
+/** Highlighting settings, or `undefined` when highlighting is off */
+export function getHighlightConfig(config: BuilderConfig): HighlightConfig | undefined {
+  if (!config.highlight) {
+    return undefined
+  }
+  return config.highlight === true ? {} : config.highlight
+}
+
+export function getI18nDir(config: BuilderConfig): string {
+  return path.resolve(config.i18nDir ?? 'i18n')
+}
+
 export function getSupportedLangs(config: BuilderConfig, defaultLang: string): readonly string[] {
   return config.translations !== false
     ? (config.translations?.supportedLangs ?? [defaultLang])
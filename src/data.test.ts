@@ -0,0 +1,83 @@
+import { test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdir, writeFile, rm } from 'node:fs/promises'
+import path from 'node:path'
+import type { PageMeta } from './config.js'
+import { getDataForLang, isDataFile, loadSiteData } from './data.js'
+import { renderTemplateLogic } from './template.js'
+
+const TEST_DIR = path.join(process.cwd(), '.test-data')
+const dataDir = path.join(TEST_DIR, 'content', '_data')
+
+beforeEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+  await mkdir(dataDir, { recursive: true })
+})
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+})
+
+test('loadSiteData - keys JSON and YAML files by path', async () => {
+  await writeFile(path.join(dataDir, 'studio.json'), JSON.stringify({ phone: '0123', hours: ['Mon', 'Tue'] }))
+  await mkdir(path.join(dataDir, 'team'))
+  await writeFile(path.join(dataDir, 'prices.yaml'), 'drop_in: 15\nterm: 120\n')
+  await writeFile(path.join(dataDir, 'team', 'instructors.yml'), 'lead: Sam\n')
+  await writeFile(path.join(dataDir, 'notes.txt'), 'ignored')
+
+  const siteData = await loadSiteData(path.join(TEST_DIR, 'content'), ['en'])
+
+  expect(siteData.shared).toEqual({
+    prices: { drop_in: 15, term: 120 },
+    studio: { phone: '0123', hours: ['Mon', 'Tue'] },
+    team: { instructors: { lead: 'Sam' } },
+  })
+})
+
+test('loadSiteData - loads YAML and JSON lists for {{#each}}', async () => {
+  await writeFile(path.join(dataDir, 'instructors.yaml'), '- name: Sam\n  classes: [silks]\n- name: Alex\n  classes: [hoop]\n')
+  await writeFile(path.join(dataDir, 'hours.json'), JSON.stringify(['Mon', 'Tue']))
+
+  const siteData = await loadSiteData(path.join(TEST_DIR, 'content'), ['en'])
+
+  expect(siteData.shared.instructors).toEqual([
+    { name: 'Sam', classes: ['silks'] },
+    { name: 'Alex', classes: ['hoop'] },
+  ])
+  const template = '{{#each data.instructors}}{{this.name}};{{/each}} {{#each data.hours}}{{this}}{{/each}}'
+  expect(renderTemplateLogic(template, { meta: {} as PageMeta, data: siteData.shared, alternates: [] })).toBe('Sam;Alex; MonTue')
+})
+
+test('loadSiteData - merges language data over shared data', async () => {
+  await writeFile(path.join(dataDir, 'studio.json'), JSON.stringify({ name: 'Studio', phone: '0123' }))
+  await mkdir(path.join(dataDir, 'fr'))
+  await writeFile(path.join(dataDir, 'fr', 'studio.json'), JSON.stringify({ name: 'Le Studio' }))
+
+  const siteData = await loadSiteData(path.join(TEST_DIR, 'content'), ['en', 'fr'])
+
+  expect(getDataForLang(siteData, 'fr')).toEqual({ studio: { name: 'Le Studio', phone: '0123' } })
+  expect(getDataForLang(siteData, 'en')).toEqual({ studio: { name: 'Studio', phone: '0123' } })
+})
+
+test('loadSiteData - returns empty data without a _data directory', async () => {
+  const siteData = await loadSiteData(path.join(TEST_DIR, 'missing'), ['en'])
+  expect(getDataForLang(siteData, 'en')).toEqual({})
+})
+
+test('loadSiteData - rejects duplicate keys and reports the file', async () => {
+  await writeFile(path.join(dataDir, 'studio.json'), '{}')
+  await writeFile(path.join(dataDir, 'studio.yaml'), 'name: Studio\n')
+  await expect(loadSiteData(path.join(TEST_DIR, 'content'), ['en'])).rejects.toThrow(
+    'data key "studio" is defined more than once',
+  )
+
+  await rm(path.join(dataDir, 'studio.yaml'))
+  await writeFile(path.join(dataDir, 'studio.json'), '{ broken')
+  await expect(loadSiteData(path.join(TEST_DIR, 'content'), ['en'])).rejects.toThrow('studio.json: invalid JSON')
+})
+
+test('isDataFile - matches data files relative to the content directory', () => {
+  expect(isDataFile('_data/studio.json')).toBe(true)
+  expect(isDataFile('_data/fr/studio.yaml')).toBe(true)
+  expect(isDataFile('_data/readme.md')).toBe(false)
+  expect(isDataFile('classes/_data/studio.json')).toBe(false)
+})
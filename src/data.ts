@@ -0,0 +1,124 @@
+import { readdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { DataContext, FrontMatterValue } from './config.js'
+import { parseYamlDocument } from './yaml.js'
+
+export const DATA_DIR_NAME = '_data'
+export const DATA_FILE_EXTENSIONS = ['.json', '.yaml', '.yml']
+
+/** Shared data plus per-language overrides from `_data/<lang>/` */
+export interface SiteData {
+  readonly shared: DataContext
+  readonly byLang: Readonly<Record<string, DataContext>>
+}
+
+type DataObject = { readonly [key: string]: FrontMatterValue }
+
+/**
+ * Loads `content/_data/**\/*.{json,yaml,yml}` keyed by path: `_data/studio.json`
+ * becomes `data.studio` and `_data/team/instructors.yaml` becomes
+ * `data.team.instructors`. Top-level directories named after a supported
+ * language hold translations for that language only.
+ */
+export async function loadSiteData(
+  contentDir: string,
+  supportedLangs: readonly string[],
+): Promise<SiteData> {
+  const dataDir = path.join(contentDir, DATA_DIR_NAME)
+  const entries = await readDirectory(dataDir)
+
+  const langDirs = entries
+    .filter((entry) => entry.isDirectory() && supportedLangs.includes(entry.name))
+    .map((entry) => entry.name)
+  const shared = await loadDataDirectory(dataDir, langDirs)
+  const byLang: Record<string, DataContext> = {}
+  for (const lang of langDirs) {
+    byLang[lang] = await loadDataDirectory(path.join(dataDir, lang), [])
+  }
+
+  return { shared, byLang }
+}
+
+/**
+ * Returns the data visible to pages in `lang`: language-specific values
+ * are merged over the shared ones, so a translation only needs the keys
+ * that differ.
+ */
+export function getDataForLang(siteData: SiteData, lang: string | undefined): DataContext {
+  const overrides = lang ? siteData.byLang[lang] : undefined
+  return overrides ? deepMerge(siteData.shared, overrides) : siteData.shared
+}
+
+export function isDataFile(relativePath: string): boolean {
+  const [first] = relativePath.split(/[\\/]/)
+  return first === DATA_DIR_NAME && DATA_FILE_EXTENSIONS.includes(path.extname(relativePath))
+}
+
+async function loadDataDirectory(dir: string, skipDirs: readonly string[]): Promise<DataContext> {
+  const entries = await readDirectory(dir)
+  const data: Record<string, FrontMatterValue> = {}
+
+  for (const entry of [...entries].sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (!skipDirs.includes(entry.name)) {
+        setDataKey(data, entry.name, await loadDataDirectory(fullPath, []), fullPath)
+      }
+      continue
+    }
+    const ext = path.extname(entry.name)
+    if (entry.isFile() && DATA_FILE_EXTENSIONS.includes(ext)) {
+      setDataKey(data, path.basename(entry.name, ext), await loadDataFile(fullPath), fullPath)
+    }
+  }
+
+  return data
+}
+
+async function loadDataFile(filePath: string): Promise<FrontMatterValue> {
+  const source = await readFile(filePath, 'utf-8')
+  const fileName = path.relative(process.cwd(), filePath)
+  if (path.extname(filePath) !== '.json') {
+    return parseYamlDocument(source, { fileName })
+  }
+  try {
+    return JSON.parse(source) as FrontMatterValue
+  } catch (error) {
+    throw new Error(`${fileName}: invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+function setDataKey(
+  data: Record<string, FrontMatterValue>,
+  key: string,
+  value: FrontMatterValue,
+  sourcePath: string,
+): void {
+  if (key in data) {
+    throw new Error(
+      `${path.relative(process.cwd(), sourcePath)}: data key "${key}" is defined more than once`,
+    )
+  }
+  data[key] = value
+}
+
+function deepMerge(base: DataObject, overrides: DataObject): DataObject {
+  const merged: Record<string, FrontMatterValue> = { ...base }
+  for (const [key, value] of Object.entries(overrides)) {
+    const existing = merged[key]
+    merged[key] = isDataObject(existing) && isDataObject(value) ? deepMerge(existing, value) : value
+  }
+  return merged
+}
+
+function isDataObject(value: FrontMatterValue | undefined): value is DataObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+async function readDirectory(dir: string) {
+  try {
+    return await readdir(dir, { withFileTypes: true })
+  } catch {
+    return []
+  }
+}
@@ -1,8 +1,11 @@
 import path from 'node:path'
 import chokidar from 'chokidar'
 import type { BuilderConfig } from './config.js'
+import { getI18nDir, getPartialsDir } from './config.js'
 import { build } from './builder.js'
 import { clearTemplateCache } from './template.js'
+import { DIRECTORY_DEFAULTS_FILES } from './cascade.js'
+import { isDataFile } from './data.js'
 import { cleanHtmlFiles, logError } from './utils.js'
 
 export interface DevServerOptions {
@@ -10,12 +13,18 @@ export interface DevServerOptions {
   readonly outputDir?: string
   readonly refreshTranslations?: boolean
   readonly clean?: boolean
+  /** Preview drafts and scheduled pages (default: `true`) */
+  readonly includeDrafts?: boolean
 }
 
 export async function startDevServer(
-  config: BuilderConfig,
+  baseConfig: BuilderConfig,
   options: DevServerOptions = {},
 ): Promise<void> {
+  const config: BuilderConfig = {
+    ...baseConfig,
+    includeDrafts: options.includeDrafts ?? baseConfig.includeDrafts ?? true,
+  }
   const outputDir = path.resolve(options.outputDir ?? config.outputDir ?? 'docs')
   const port = options.port ?? Number(process.env.PORT ?? 4173)
 
@@ -41,14 +50,23 @@ export async function startDevServer(
   const homepageTemplatePath = config.homepageTemplatePath
     ? path.resolve(config.homepageTemplatePath)
     : null
+  const partialsDir = getPartialsDir(config)
+  const i18nDir = getI18nDir(config)
+  const layoutPaths = Object.values(config.layouts ?? {}).map((layoutPath) => path.resolve(layoutPath))
 
-  const watchedPaths: string[] = [contentDir]
+  const watchedPaths: string[] = [contentDir, partialsDir, i18nDir]
   if (templatePath) {
     const templateDir = path.dirname(templatePath)
     if (!watchedPaths.includes(templateDir)) {
       watchedPaths.push(templateDir)
     }
   }
+  for (const layoutPath of layoutPaths) {
+    const layoutDir = path.dirname(layoutPath)
+    if (!watchedPaths.includes(layoutDir)) {
+      watchedPaths.push(layoutDir)
+    }
+  }
   if (homepageTemplatePath) {
     const homepageTemplateDir = path.dirname(homepageTemplatePath)
     if (!watchedPaths.includes(homepageTemplateDir)) {
@@ -70,7 +88,7 @@ export async function startDevServer(
     // Clear template cache if a template file changed
     if (filePath) {
       const resolvedPath = path.resolve(filePath)
-      if (resolvedPath === templatePath || resolvedPath === homepageTemplatePath) {
+      if (resolvedPath === templatePath || resolvedPath === homepageTemplatePath || isWithin(partialsDir, resolvedPath)) {
         clearTemplateCache()
       }
     }
@@ -104,24 +122,32 @@ export async function startDevServer(
     const resolved = path.resolve(filePath)
     const ext = path.extname(resolved)
 
-    // Watch markdown files in content directory (including subdirectories)
-    if (ext === '.md') {
-      const contentDirNormalized = path.resolve(contentDir)
-      const resolvedNormalized = path.resolve(resolved)
-      const relative = path.relative(contentDirNormalized, resolvedNormalized)
-      // Check that the file is within the content directory (not outside)
-      if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+    // Watch markdown files, directory defaults and data files in content directory (including subdirectories)
+    if (isWithin(contentDir, resolved)) {
+      const relative = path.relative(contentDir, resolved)
+      if (ext === '.md' || DIRECTORY_DEFAULTS_FILES.includes(path.basename(resolved)) || isDataFile(relative)) {
         return true
       }
     }
 
-    // Watch template files
+    // Watch UI string dictionaries
+    if (isWithin(i18nDir, resolved) && ext === '.json') {
+      return true
+    }
+
+    // Watch template files and partials
+    if (isWithin(partialsDir, resolved) && ext === '.html') {
+      return true
+    }
     if (templatePath && resolved === templatePath) {
       return true
     }
     if (homepageTemplatePath && resolved === homepageTemplatePath) {
       return true
     }
+    if (layoutPaths.includes(resolved)) {
+      return true
+    }
 
     return false
   }
@@ -149,7 +175,7 @@ export async function startDevServer(
       logError('Watcher error:', error)
     })
     .on('ready', () => {
-      console.log('File watcher ready. Watching for changes to markdown files and templates...')
+      console.log('File watcher ready. Watching for changes to markdown files, data files, templates and partials...')
     })
 
   // Start HTTP server
@@ -204,6 +230,11 @@ export async function startDevServer(
   process.on('SIGTERM', shutdown)
 }
 
+function isWithin(dir: string, filePath: string): boolean {
+  const relative = path.relative(dir, filePath)
+  return Boolean(relative) && !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
 function resolveFilePath(requestPath: string, outputDir: string): string {
   const normalized = path
     .normalize(requestPath)
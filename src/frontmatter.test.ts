@@ -1,5 +1,5 @@
 import { test, expect } from 'bun:test'
-import { extractFrontMatter, sanitizeSlug, isBooleanEnabled } from './frontmatter.js'
+import { extractFrontMatter, sanitizeSlug, isBooleanEnabled, getPublishState } from './frontmatter.js'
 
 test('extractFrontMatter - with front matter', () => {
   const input = `---
@@ -49,6 +49,11 @@ test('sanitizeSlug', () => {
   expect(sanitizeSlug('Test--Multiple---Dashes')).toBe('test-multiple-dashes')
   expect(sanitizeSlug('Special!@#Characters')).toBe('special-characters')
   expect(sanitizeSlug('  Trimmed  ')).toBe('trimmed')
+  expect(sanitizeSlug('Équipe/Été')).toBe('equipe/ete')
+  expect(sanitizeSlug('Équipe', 'unicode')).toBe('équipe')
+  expect(sanitizeSlug("What's new")).toBe('what-s-new')
+  expect(sanitizeSlug('日本語')).toBe('日本語')
+  expect(sanitizeSlug('日本語', 'transliterate')).toBe('page')
 })
 
 test('isBooleanEnabled', () => {
@@ -61,3 +66,123 @@ test('isBooleanEnabled', () => {
   expect(isBooleanEnabled(undefined)).toBe(false)
 })
 
+
+test('extractFrontMatter - parses lists and nested values', () => {
+  const input = `---
+title: Test
+tags:
+  - aerial
+  - silks
+seo:
+  keywords: [yoga, hammock]
+order: 2
+---
+Content`
+  const result = extractFrontMatter(input)
+  expect(result.meta.tags).toEqual(['aerial', 'silks'])
+  expect(result.meta.seo).toEqual({ keywords: ['yoga', 'hammock'] })
+  expect(result.meta.order).toBe(2)
+})
+
+test('extractFrontMatter - keeps built-in text fields as strings', () => {
+  const input = `---
+title: 2024
+slug: 404
+---
+Content`
+  const result = extractFrontMatter(input)
+  expect(result.meta.title).toBe('2024')
+  expect(result.meta.slug).toBe('404')
+})
+
+test('extractFrontMatter - reports parse errors with file and line', () => {
+  const input = `---
+title: Test
+tags:
+  - one
+ - two
+---
+Content`
+  expect(() => extractFrontMatter(input, 'content/page.md')).toThrow('content/page.md:5:')
+})
+
+test('extractFrontMatter - TOML front matter', () => {
+  const input = `+++
+title = "Hugo Page"
+tags = ["a", "b"]
+noindex = true
++++
+# Content`
+  const result = extractFrontMatter(input)
+  expect(result.format).toBe('toml')
+  expect(result.meta.title).toBe('Hugo Page')
+  expect(result.meta.tags).toEqual(['a', 'b'])
+  expect(result.meta.noindex).toBe(true)
+  expect(result.body).toBe('# Content')
+})
+
+test('extractFrontMatter - JSON front matter', () => {
+  const input = `{
+  "title": "JSON {Page}",
+  "translate": "yes",
+  "order": 2
+}
+# Content`
+  const result = extractFrontMatter(input)
+  expect(result.format).toBe('json')
+  expect(result.meta.title).toBe('JSON {Page}')
+  expect(result.meta.translate).toBe(true)
+  expect(result.meta.order).toBe(2)
+  expect(result.body).toBe('# Content')
+})
+
+test('extractFrontMatter - reports the line the body starts on', () => {
+  // The body also appears in the front matter, so it can't be found by searching
+  expect(extractFrontMatter('---\ntitle: Hi\n---\n\nHi').bodyLine).toBe(5)
+  expect(extractFrontMatter('+++\r\ntitle = "Hi"\r\n+++\r\nHi').bodyLine).toBe(4)
+  expect(extractFrontMatter('{\n  "title": "Hi"\n}\n\n\nHi').bodyLine).toBe(6)
+  expect(extractFrontMatter('\n\nHi').bodyLine).toBe(3)
+})
+
+test('extractFrontMatter - YAML front matter reports its format', () => {
+  expect(extractFrontMatter('---\ntitle: A\n---\nBody').format).toBe('yaml')
+  expect(extractFrontMatter('Body').format).toBeUndefined()
+})
+
+test('extractFrontMatter - reports TOML errors with file and line', () => {
+  expect(() => extractFrontMatter('+++\ntitle = "a"\ntitle = "b"\n+++\n', 'page.md')).toThrow('page.md:3:')
+})
+
+test('extractFrontMatter - leaves a leading brace that is not a JSON object in the body', () => {
+  for (const body of ['{{< video id="abc" >}}\n\nText', '{{data.studio.phone}} today', '{\n  "title": oops\n}\nBody']) {
+    const result = extractFrontMatter(body, 'p.md')
+    expect(result.format).toBeUndefined()
+    expect(result.meta).toEqual({})
+    expect(result.body).toBe(body)
+  }
+})
+
+test('getPublishState - drafts, scheduled and expired pages', () => {
+  const now = new Date('2024-06-01T12:00:00Z')
+  const stateOf = (frontMatter: string) => getPublishState(extractFrontMatter(`---\n${frontMatter}\n---\n`).meta, now)
+
+  expect(stateOf('title: Page')).toBe('published')
+  expect(stateOf('draft: true')).toBe('draft')
+  expect(stateOf('draft: false')).toBe('published')
+  expect(stateOf('publishDate: 2024-07-01')).toBe('scheduled')
+  expect(stateOf('publishDate: 2024-05-01')).toBe('published')
+  expect(stateOf('expiryDate: 2024-06-01')).toBe('expired')
+  expect(stateOf('expiryDate: 2024-06-02')).toBe('published')
+  expect(getPublishState(extractFrontMatter('{ "publishDate": "2024-07-01T00:00:00Z" }\n').meta, now)).toBe('scheduled')
+})
+
+test('extractFrontMatter - rejects publish dates that are not real dates', () => {
+  expect(() => extractFrontMatter('---\ntitle: A\npublishDate: next tuesday\n---\n', 'page.md')).toThrow(
+    'page.md:3: publishDate "next tuesday" is not a valid date',
+  )
+  // `Date` would roll these over to a later day instead of failing
+  expect(() => extractFrontMatter('---\nexpiryDate: 2024-13-45\n---\n', 'page.md')).toThrow('page.md:2: expiryDate')
+  expect(() => extractFrontMatter('+++\npublishDate = 2024-02-30\n+++\n', 'page.md')).toThrow('page.md:2: publishDate')
+  expect(() => extractFrontMatter('{\n  "expiryDate": "2024-02-30T10:00:00Z"\n}\n', 'page.md')).toThrow('page.md:2: expiryDate')
+  expect(extractFrontMatter('---\npublishDate: 2024-02-29\n---\n').meta.publishDate).toEqual(new Date('2024-02-29T00:00:00Z'))
+})
@@ -1,91 +1,325 @@
 import path from 'node:path'
-import type { FrontMatter } from './config.js'
+import type { FrontMatter, FrontMatterFormat, FrontMatterValue, SlugMode } from './config.js'
+import { slugify } from './utils.js'
+import { parseToml } from './toml.js'
+import { formatTimestamp, isCalendarDate, parseYaml } from './yaml.js'
 
-const FRONT_MATTER_BOUNDARY = /^---\s*$/
+const FRONT_MATTER_BOUNDARIES: ReadonlyArray<{ readonly format: Exclude<FrontMatterFormat, 'json'>; readonly pattern: RegExp }> = [
+  { format: 'yaml', pattern: /^---\s*$/ },
+  { format: 'toml', pattern: /^\+\+\+\s*$/ },
+]
+const JSON_FRONT_MATTER_START = /^\{[ \t]*(?:\r?\n|")/
+const BOOLEAN_FIELDS = ['noindex', 'translate', 'draft', 'toc', 'nav']
+const DATE_FIELDS = ['publishDate', 'expiryDate', 'modifiedDate']
+// Decide whether a page is built, so a value that isn't a date fails the build
+const PUBLISH_DATE_FIELDS = ['publishDate', 'expiryDate']
+const STRING_FIELDS = [
+  'title',
+  'description',
+  'sidebarTitle',
+  'sidebarSummary',
+  'backLinkHref',
+  'backLinkLabel',
+  'slug',
+  'lang',
+  'translationOf',
+  'ogImage',
+  'twitterImage',
+  'ogImageAlt',
+  'ogType',
+  'twitterCard',
+  'schemaType',
+  'navTitle',
+  'layout',
+]
 
-export function extractFrontMatter(raw: string): {
+// Understood by the builder but passed through unchanged, e.g. `author` may be a list
+const STRUCTURED_FIELDS = ['author', 'weight', 'order']
+
+/** Keys the builder itself understands; never reported as unknown */
+export const BUILT_IN_FRONT_MATTER_KEYS: readonly string[] = [
+  ...STRING_FIELDS,
+  ...BOOLEAN_FIELDS,
+  ...DATE_FIELDS,
+  ...STRUCTURED_FIELDS,
+]
+
+export function extractFrontMatter(raw: string, sourcePath?: string): {
   readonly body: string
   readonly meta: FrontMatter
+  readonly format?: FrontMatterFormat
+  /** Line number of each top-level front matter key, for diagnostics */
+  readonly keyLines: Readonly<Record<string, number>>
+  /** Line number the body starts on, for diagnostics */
+  readonly bodyLine: number
 } {
   const lines = raw.split(/\r?\n/)
 
-  if (lines[0]?.match(FRONT_MATTER_BOUNDARY) !== null) {
+  const boundary = FRONT_MATTER_BOUNDARIES.find(({ pattern }) => pattern.test(lines[0] ?? ''))
+  if (boundary) {
     const endIndex = lines.findIndex(
-      (line, index) => index > 0 && line.match(FRONT_MATTER_BOUNDARY),
+      (line, index) => index > 0 && boundary.pattern.test(line),
     )
     if (endIndex > 0) {
       const metaLines = lines.slice(1, endIndex)
       const bodyLines = lines.slice(endIndex + 1)
+      const keyLines = locateKeys(metaLines.join('\n'), boundary.format, 2)
       return {
         body: bodyLines.join('\n').trim(),
-        meta: parseMeta(metaLines),
+        bodyLine: findBodyLine(bodyLines.join('\n'), endIndex + 2),
+        meta: parseMeta(metaLines.join('\n'), boundary.format, { sourcePath, keyLines }),
+        format: boundary.format,
+        keyLines,
+      }
+    }
+  }
+
+  // JSON front matter is a bare object at the very start of the file. The
+  // `{` must be followed by a newline or a key, so bodies that open with
+  // `{{data.x}}` or a `{{< shortcode >}}` are not mistaken for it
+  if (JSON_FRONT_MATTER_START.test(raw)) {
+    const endIndex = findJsonObjectEnd(raw)
+    const meta = endIndex > 0 ? parseJsonMeta(raw.slice(0, endIndex)) : undefined
+    if (meta) {
+      const keyLines = locateKeys(raw.slice(0, endIndex), 'json', 1)
+      return {
+        body: raw.slice(endIndex).trim(),
+        // The body may start on the line the object ends on
+        bodyLine: findBodyLine(raw.slice(endIndex), raw.slice(0, endIndex).split('\n').length),
+        meta: normalizeMeta(meta, { sourcePath, keyLines }),
+        format: 'json',
+        keyLines,
       }
     }
   }
 
   return {
     body: raw.trim(),
+    bodyLine: findBodyLine(raw, 1),
     meta: {},
+    keyLines: {},
+  }
+}
+
+// Skips the blank lines trimmed off the start of the body
+function findBodyLine(untrimmed: string, firstLine: number): number {
+  const leading = untrimmed.slice(0, untrimmed.length - untrimmed.trimStart().length)
+  return firstLine + leading.split('\n').length - 1
+}
+
+interface MetaSource {
+  readonly sourcePath?: string
+  readonly keyLines: Readonly<Record<string, number>>
+}
+
+function parseMeta(source: string, format: Exclude<FrontMatterFormat, 'json'>, metaSource: MetaSource): FrontMatter {
+  const { sourcePath } = metaSource
+  switch (format) {
+    case 'toml':
+      // Front matter starts on line 2, after the opening boundary
+      return normalizeMeta(parseToml(source, { fileName: sourcePath, firstLine: 2 }), metaSource)
+    default:
+      return normalizeMeta(parseYaml(source, { fileName: sourcePath, firstLine: 2 }), metaSource)
   }
 }
 
-function parseMeta(lines: string[]): FrontMatter {
-  return lines.reduce<FrontMatter>((acc, line) => {
-    const [key, ...rest] = line.split(':')
-    if (!key || rest.length === 0) {
-      return acc
+function locateKeys(
+  source: string,
+  format: FrontMatterFormat,
+  firstLine: number,
+): Record<string, number> {
+  const keyLines: Record<string, number> = {}
+  const record = (key: string, line: number): void => {
+    if (keyLines[key] === undefined) {
+      keyLines[key] = line
+    }
+  }
+  const unquote = (key: string): string => key.replace(/^(["'])(.*)\1$/, '$2')
+
+  if (format === 'json') {
+    let depth = 0
+    let line = firstLine
+    for (let i = 0; i < source.length; i += 1) {
+      const char = source[i]
+      if (char === '\n') {
+        line += 1
+      } else if (char === '{' || char === '[') {
+        depth += 1
+      } else if (char === '}' || char === ']') {
+        depth -= 1
+      } else if (char === '"') {
+        const match = source.slice(i).match(/^"((?:[^"\\]|\\.)*)"(\s*:)?/)
+        if (match?.[2] && depth === 1) {
+          record(match[1]!, line)
+        }
+        i += (match?.[1]?.length ?? 0) + 1
+      }
+    }
+    return keyLines
+  }
+
+  let inTable = false
+  source.split('\n').forEach((text, index) => {
+    const line = firstLine + index
+    if (format === 'toml') {
+      const header = text.match(/^\s*\[\[?\s*("[^"]*"|'[^']*'|[A-Za-z0-9_-]+)/)
+      if (header) {
+        inTable = true
+        record(unquote(header[1]!), line)
+        return
+      }
+      const entry = text.match(/^\s*("[^"]*"|'[^']*'|[A-Za-z0-9_-]+)\s*[.=]/)
+      if (entry && !inTable) {
+        record(unquote(entry[1]!), line)
+      }
+      return
+    }
+    const entry = text.match(/^("(?:[^"\\]|\\.)*"|'[^']*'|[^\s#'"-][^:#]*?)\s*:(?:\s|$)/)
+    if (entry) {
+      record(unquote(entry[1]!), line)
+    }
+  })
+  return keyLines
+}
+
+function findJsonObjectEnd(raw: string): number {
+  let depth = 0
+  let inString = false
+  for (let i = 0; i < raw.length; i += 1) {
+    const char = raw[i]
+    if (inString) {
+      if (char === '\\') {
+        i += 1
+      } else if (char === '"') {
+        inString = false
+      }
+      continue
+    }
+    if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      depth += 1
+    } else if (char === '}') {
+      depth -= 1
+      if (depth === 0) {
+        return i + 1
+      }
     }
-    const rawValue = rest.join(':').trim()
-    const keyName = key.trim() as keyof FrontMatter
+  }
+  return -1
+}
+
+/**
+ * Parses a file holding only a JSON object of front matter values, such as
+ * `_meta.json`. Unlike JSON front matter, which falls back to being part of
+ * the body, invalid JSON or another root value throws with the file path.
+ */
+export function parseMetaFile(source: string, sourcePath: string): FrontMatter {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch (error) {
+    throw new Error(`${sourcePath}: invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    const found = parsed === null ? 'null' : Array.isArray(parsed) ? 'an array' : typeof parsed
+    throw new Error(`${sourcePath}: expected a JSON object of front matter values, found ${found}`)
+  }
+  return normalizeMeta(parsed as { readonly [key: string]: FrontMatterValue }, {
+    sourcePath,
+    keyLines: locateKeys(source, 'json', 1),
+  })
+}
+
+// Anything that isn't a JSON object is left as part of the body
+function parseJsonMeta(source: string): { readonly [key: string]: FrontMatterValue } | undefined {
+  try {
+    const parsed: unknown = JSON.parse(source)
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as { readonly [key: string]: FrontMatterValue })
+      : undefined
+  } catch {
+    return undefined
+  }
+}
 
+function normalizeMeta(data: { readonly [key: string]: FrontMatterValue }, metaSource: MetaSource): FrontMatter {
+  return Object.entries(data).reduce<FrontMatter>((acc, [key, value]) => {
     // Handle boolean fields
-    if (keyName === 'noindex' || keyName === 'translate') {
-      const value = isBooleanEnabled(rawValue)
+    if (BOOLEAN_FIELDS.includes(key)) {
       return {
         ...acc,
-        [keyName]: value,
+        [key]: isBooleanEnabled(typeof value === 'boolean' ? value : stringifyScalar(value)),
       }
     }
 
-    const value = parseMetaValue(rawValue)
+    // JSON front matter has no date type, so accept date strings too
+    const isDate = typeof value === 'string' && !Number.isNaN(Date.parse(value)) && isCalendarDate(value)
+    if (DATE_FIELDS.includes(key) && isDate) {
+      return {
+        ...acc,
+        [key]: new Date(value),
+      }
+    }
+    if (PUBLISH_DATE_FIELDS.includes(key) && value !== null && !(value instanceof Date)) {
+      const { sourcePath, keyLines } = metaSource
+      const location = sourcePath ? `${sourcePath}:${keyLines[key]}` : `line ${keyLines[key]}`
+      throw new Error(`${location}: ${key} ${JSON.stringify(value)} is not a valid date`)
+    }
+
+    // Built-in text fields stay strings even when YAML reads them as numbers or dates
+    if (STRING_FIELDS.includes(key)) {
+      const text = stringifyScalar(value)
+      return text === undefined ? acc : { ...acc, [key]: text }
+    }
+
     return {
       ...acc,
-      [keyName]: value,
+      [key]: value,
     }
   }, {})
 }
 
-function parseMetaValue(raw: string): string {
-  if (!raw.startsWith('"') || !raw.endsWith('"')) {
-    return raw
+function stringifyScalar(value: FrontMatterValue): string | undefined {
+  if (value === null || (typeof value === 'object' && !(value instanceof Date))) {
+    return undefined
   }
+  return value instanceof Date ? formatTimestamp(value) : String(value)
+}
+
+export type PublishState = 'published' | 'draft' | 'scheduled' | 'expired'
 
-  const inner = raw.slice(1, -1)
-  return inner.replace(/\\"/g, '"').replace(/\\\\/g, '\\')
+/**
+ * Whether a page should be published at `now`, based on `draft`,
+ * `publishDate` and `expiryDate`.
+ */
+export function getPublishState(meta: FrontMatter, now: Date = new Date()): PublishState {
+  if (isBooleanEnabled(meta.draft)) {
+    return 'draft'
+  }
+  if (meta.publishDate instanceof Date && meta.publishDate.getTime() > now.getTime()) {
+    return 'scheduled'
+  }
+  if (meta.expiryDate instanceof Date && meta.expiryDate.getTime() <= now.getTime()) {
+    return 'expired'
+  }
+  return 'published'
 }
 
-export function sanitizeSlug(value: string): string {
+export function sanitizeSlug(value: string, mode?: SlugMode): string {
   // If the slug contains slashes, preserve directory structure
   if (value.includes('/')) {
     return value
       .split('/')
-      .map((segment) => sanitizeSlugSegment(segment))
+      .map((segment) => sanitizeSlugSegment(segment, mode))
       .filter((segment) => segment.length > 0)
       .join('/')
   }
-  return sanitizeSlugSegment(value)
+  return sanitizeSlugSegment(value, mode)
 }
 
-function sanitizeSlugSegment(value: string): string {
-  return (
-    value
-      .toLowerCase()
-      .trim()
-      .replace(/\s+/g, '-')
-      .replace(/[^a-z0-9-]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '') || 'page'
-  )
+function sanitizeSlugSegment(value: string, mode?: SlugMode): string {
+  return slugify(value, mode) || 'page'
 }
 
 export function sanitizeLang(input: string, supportedLangs: readonly string[], defaultLang: string): string {
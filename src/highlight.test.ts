@@ -0,0 +1,58 @@
+import { test, expect } from 'bun:test'
+import { getHighlightThemeCss, highlightLines, parseFenceInfo, renderCodeBlock } from './highlight.js'
+
+test('parseFenceInfo - reads language, line ranges, title and flags', () => {
+  const info = parseFenceInfo('ts {1,3-5} title="src/app.ts" lineNumbers')
+
+  expect(info.lang).toBe('ts')
+  expect([...info.highlightLines]).toEqual([1, 3, 4, 5])
+  expect(info.title).toBe('src/app.ts')
+  expect(info.lineNumbers).toBe(true)
+  expect(parseFenceInfo("py{2} title='a b.py' noLineNumbers")).toEqual({
+    lang: 'py',
+    highlightLines: new Set([2]),
+    title: 'a b.py',
+    lineNumbers: false,
+  })
+  expect(parseFenceInfo('')).toEqual({ lang: '', highlightLines: new Set(), title: undefined, lineNumbers: undefined })
+})
+
+test('highlightLines - emits token classes and splits multi-line tokens per line', () => {
+  expect(highlightLines('const n = 1 // one', 'ts')).toEqual([
+    '<span class="hl-keyword">const</span> n = <span class="hl-number">1</span> <span class="hl-comment">// one</span>',
+  ])
+  expect(highlightLines('/* a\nb */ return', 'js')).toEqual([
+    '<span class="hl-comment">/* a</span>',
+    '<span class="hl-comment">b */</span> <span class="hl-keyword">return</span>',
+  ])
+  // Keywords are not matched inside identifiers
+  expect(highlightLines('constant', 'ts')).toEqual(['constant'])
+  expect(highlightLines('{"on": true}', 'json')).toEqual([
+    '{<span class="hl-property">&quot;on&quot;</span>: <span class="hl-literal">true</span>}',
+  ])
+  expect(highlightLines('echo "$HOME" <tag>', 'unknown')).toEqual(['echo &quot;$HOME&quot; &lt;tag&gt;'])
+})
+
+test('renderCodeBlock - marks highlighted lines, numbers lines and adds a title', () => {
+  expect(renderCodeBlock('a\nb\n', 'txt {2}')).toBe(
+    '<pre class="hl"><code class="language-txt"><span class="line">a</span>\n<span class="line is-highlighted">b</span>\n</code></pre>\n',
+  )
+  expect(renderCodeBlock('x\n', 'sh title="run.sh"', { lineNumbers: true })).toBe(
+    '<figure class="code-block"><figcaption class="code-title">run.sh</figcaption><pre class="hl has-line-numbers"><code class="language-sh"><span class="line" data-line="1">x</span>\n</code></pre></figure>\n',
+  )
+  expect(renderCodeBlock('x\n', 'sh noLineNumbers', { lineNumbers: true })).not.toContain('data-line')
+})
+
+test('renderCodeBlock - stops line ranges at the end of the block', () => {
+  expect([...parseFenceInfo('txt {2-100000000}', 3).highlightLines]).toEqual([2, 3])
+  expect(renderCodeBlock('a\nb\n', 'txt {2-100000000}')).toBe(
+    '<pre class="hl"><code class="language-txt"><span class="line">a</span>\n<span class="line is-highlighted">b</span>\n</code></pre>\n',
+  )
+})
+
+test('getHighlightThemeCss - styles every token class for each theme', () => {
+  const light = getHighlightThemeCss()
+  expect(light).toContain('.hl-keyword { color: #cf222e; }')
+  expect(light).toContain('.hl.has-line-numbers .line::before { content: attr(data-line);')
+  expect(getHighlightThemeCss('dark')).toContain('.hl-keyword { color: #ff7b72; }')
+})
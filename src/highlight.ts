@@ -0,0 +1,317 @@
+import type { HighlightConfig, HighlightTheme } from './config.js'
+import { escapeHtml } from './utils.js'
+
+/** A token class (without the `hl-` prefix) and a sticky pattern for it */
+type Rule = readonly [className: string, pattern: RegExp]
+
+interface Token {
+  readonly className?: string
+  readonly text: string
+}
+
+export interface FenceInfo {
+  readonly lang: string
+  /** 1-based line numbers from `{1,3-5}` */
+  readonly highlightLines: ReadonlySet<number>
+  readonly title?: string
+  /** `lineNumbers` or `noLineNumbers` in the info string; unset otherwise */
+  readonly lineNumbers?: boolean
+}
+
+function words(list: string): RegExp {
+  return new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`, 'y')
+}
+
+const SLASH_COMMENTS: readonly Rule[] = [
+  ['comment', /\/\/[^\n]*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+]
+const HASH_COMMENT: Rule = ['comment', /#[^\n]*/y]
+const QUOTED_STRING: Rule = ['string', /"(?:\\[\s\S]|[^"\\\n])*"?|'(?:\\[\s\S]|[^'\\\n])*'?/y]
+const NUMBER: Rule = ['number', /\b(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?n?)\b/iy]
+const FUNCTION_CALL: Rule = ['function', /[A-Za-z_$][\w$]*(?=\s*\()/y]
+
+const JAVASCRIPT: readonly Rule[] = [
+  ...SLASH_COMMENTS,
+  QUOTED_STRING,
+  ['string', /`(?:\\[\s\S]|[^`\\])*`?/y],
+  ['keyword', words(`
+    abstract as async await break case catch class const continue debugger declare default delete do else
+    enum export extends finally for from function get if implements import in instanceof interface keyof let
+    new of private protected public readonly return satisfies set static super switch throw try type typeof
+    var void while with yield`)],
+  ['literal', words('true false null undefined NaN Infinity this')],
+  NUMBER,
+  FUNCTION_CALL,
+  ['type', /\b[A-Z][\w$]*/y],
+]
+
+const PYTHON: readonly Rule[] = [
+  HASH_COMMENT,
+  ['string', /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/iy],
+  QUOTED_STRING,
+  ['keyword', words(`
+    and as assert async await break class continue def del elif else except finally for from global if
+    import in is lambda nonlocal not or pass raise return try while with yield match case`)],
+  ['literal', words('True False None self')],
+  ['attr', /@[\w.]+/y],
+  NUMBER,
+  FUNCTION_CALL,
+]
+
+const SHELL: readonly Rule[] = [
+  HASH_COMMENT,
+  QUOTED_STRING,
+  ['variable', /\$\{[^}\n]*\}?|\$[\w@#?$!*-]/y],
+  ['keyword', words('if then else elif fi for while until do done case esac in function return export local unset')],
+  NUMBER,
+]
+
+const JSON_RULES: readonly Rule[] = [
+  ...SLASH_COMMENTS,
+  ['property', /"(?:\\[\s\S]|[^"\\\n])*"(?=\s*:)/y],
+  QUOTED_STRING,
+  ['literal', words('true false null')],
+  ['number', /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/iy],
+]
+
+const YAML: readonly Rule[] = [
+  HASH_COMMENT,
+  ['property', /[\w.-]+(?=[ \t]*:(?:\s|$))/y],
+  QUOTED_STRING,
+  ['literal', words('true false null yes no on off')],
+  ['literal', /~/y],
+  NUMBER,
+]
+
+const CSS: readonly Rule[] = [
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+  QUOTED_STRING,
+  ['keyword', /@[\w-]+/y],
+  // Only declarations: `a:hover {` is a selector, `color: red;` is not
+  ['property', /--[\w-]+(?=\s*:)|[\w-]+(?=\s*:[^{};]*[;}])/y],
+  ['number', /#[\da-f]{3,8}\b/iy],
+  ['number', /-?(?:\d+\.?\d*|\.\d+)(?:%|[a-z]+)?/iy],
+  FUNCTION_CALL,
+]
+
+const MARKUP: readonly Rule[] = [
+  ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+  ['tag', /<\/?[\w:-]+|<!\w+|\/?>/y],
+  ['attr', /[\w:@.-]+(?==)/y],
+  ['string', /"[^"]*"|'[^']*'/y],
+]
+
+const LANGUAGES: Readonly<Record<string, readonly Rule[]>> = {
+  js: JAVASCRIPT,
+  javascript: JAVASCRIPT,
+  mjs: JAVASCRIPT,
+  cjs: JAVASCRIPT,
+  jsx: JAVASCRIPT,
+  ts: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  tsx: JAVASCRIPT,
+  py: PYTHON,
+  python: PYTHON,
+  sh: SHELL,
+  bash: SHELL,
+  shell: SHELL,
+  zsh: SHELL,
+  json: JSON_RULES,
+  jsonc: JSON_RULES,
+  yaml: YAML,
+  yml: YAML,
+  css: CSS,
+  html: MARKUP,
+  xml: MARKUP,
+  svg: MARKUP,
+  vue: MARKUP,
+}
+
+export function isHighlightSupported(lang: string): boolean {
+  return lang.toLowerCase() in LANGUAGES
+}
+
+/**
+ * Splits the info string of a fence such as
+ * ```` ```ts {3-5} title="app.ts" lineNumbers ```` into its parts. With
+ * `lineCount`, line ranges stop at the last line of the block.
+ */
+export function parseFenceInfo(info: string, lineCount?: number): FenceInfo {
+  const trimmed = info.trim()
+  const lang = trimmed.match(/^[^\s{]+/)?.[0] ?? ''
+  const ranges = trimmed.match(/\{([\d,\s-]+)\}/)?.[1] ?? ''
+  const title = trimmed.match(/\btitle=(?:"([^"]*)"|'([^']*)'|(\S+))/)
+  const flags = trimmed.slice(lang.length).split(/\s+/)
+
+  const highlightLines = new Set<number>()
+  for (const part of ranges.split(',')) {
+    const [start, end = start] = part.split('-').map((value) => Number.parseInt(value, 10))
+    if (Number.isInteger(start) && Number.isInteger(end)) {
+      for (let line = start; line <= Math.min(end, lineCount ?? end); line++) {
+        highlightLines.add(line)
+      }
+    }
+  }
+
+  return {
+    lang,
+    highlightLines,
+    title: title ? (title[1] ?? title[2] ?? title[3]) : undefined,
+    lineNumbers: flags.includes('lineNumbers') ? true : flags.includes('noLineNumbers') ? false : undefined,
+  }
+}
+
+/**
+ * Highlights code as HTML, one string per line. Tokens become
+ * `<span class="hl-keyword">` and so on; a token spanning lines is closed
+ * and reopened so every line stands alone. Unknown languages are only escaped.
+ */
+export function highlightLines(code: string, lang: string): string[] {
+  const lines: string[] = ['']
+  for (const token of tokenize(code, LANGUAGES[lang.toLowerCase()] ?? [])) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) {
+        lines.push('')
+      }
+      if (part) {
+        const html = escapeHtml(part)
+        lines[lines.length - 1] += token.className ? `<span class="hl-${token.className}">${html}</span>` : html
+      }
+    })
+  }
+  return lines
+}
+
+/**
+ * Renders a fenced code block; used in place of markdown-it's `fence` rule.
+ * `attrs` from the fence token, e.g. set by a plugin, go on the `<code>`
+ * element like markdown-it's own rule puts them.
+ */
+export function renderCodeBlock(
+  code: string,
+  info: string,
+  config: HighlightConfig = {},
+  attrs: ReadonlyArray<readonly [string, string]> = [],
+): string {
+  const source = code.replace(/\n$/, '')
+  const fence = parseFenceInfo(info, source.split('\n').length)
+  const numbered = fence.lineNumbers ?? config.lineNumbers ?? false
+  const lines = highlightLines(source, fence.lang).map((html, index) => {
+    const line = index + 1
+    const className = fence.highlightLines.has(line) ? 'line is-highlighted' : 'line'
+    return `<span class="${className}"${numbered ? ` data-line="${line}"` : ''}>${html}</span>`
+  })
+
+  const classes = [
+    ...(fence.lang ? [`language-${fence.lang}`] : []),
+    ...attrs.filter(([name]) => name === 'class').map(([, value]) => value),
+  ]
+  const codeAttrs = [
+    ...(classes.length > 0 ? [` class="${escapeHtml(classes.join(' '))}"`] : []),
+    ...attrs.filter(([name]) => name !== 'class').map(([name, value]) => ` ${escapeHtml(name)}="${escapeHtml(value)}"`),
+  ].join('')
+  const pre = `<pre class="hl${numbered ? ' has-line-numbers' : ''}"><code${codeAttrs}>${lines.join('\n')}\n</code></pre>`
+  if (!fence.title) {
+    return `${pre}\n`
+  }
+  return `<figure class="code-block"><figcaption class="code-title">${escapeHtml(fence.title)}</figcaption>${pre}</figure>\n`
+}
+
+function tokenize(code: string, rules: readonly Rule[]): Token[] {
+  const tokens: Token[] = []
+  let plain = ''
+  let position = 0
+
+  while (position < code.length) {
+    const match = matchRule(code, position, rules)
+    if (match) {
+      if (plain) {
+        tokens.push({ text: plain })
+        plain = ''
+      }
+      tokens.push(match)
+      position += match.text.length
+      continue
+    }
+    // Consume whole words so keywords never match inside identifiers
+    const word = /[\w$]+|[\s\S]/y
+    word.lastIndex = position
+    const text = word.exec(code)![0]
+    plain += text
+    position += text.length
+  }
+
+  if (plain) {
+    tokens.push({ text: plain })
+  }
+  return tokens
+}
+
+function matchRule(code: string, position: number, rules: readonly Rule[]): Token | undefined {
+  for (const [className, pattern] of rules) {
+    pattern.lastIndex = position
+    const match = pattern.exec(code)
+    if (match && match[0].length > 0) {
+      return { className, text: match[0] }
+    }
+  }
+  return undefined
+}
+
+const THEME_COLORS: Readonly<Record<HighlightTheme, Readonly<Record<string, string>>>> = {
+  light: {
+    background: '#f6f8fa',
+    text: '#1f2328',
+    muted: '#8c959f',
+    highlight: 'rgba(255, 212, 59, 0.25)',
+    comment: '#6e7781',
+    keyword: '#cf222e',
+    string: '#0a3069',
+    number: '#0550ae',
+    literal: '#0550ae',
+    function: '#8250df',
+    type: '#953800',
+    tag: '#116329',
+    attr: '#0550ae',
+    property: '#0550ae',
+    variable: '#953800',
+  },
+  dark: {
+    background: '#0d1117',
+    text: '#e6edf3',
+    muted: '#6e7681',
+    highlight: 'rgba(187, 128, 9, 0.2)',
+    comment: '#8b949e',
+    keyword: '#ff7b72',
+    string: '#a5d6ff',
+    number: '#79c0ff',
+    literal: '#79c0ff',
+    function: '#d2a8ff',
+    type: '#ffa657',
+    tag: '#7ee787',
+    attr: '#79c0ff',
+    property: '#79c0ff',
+    variable: '#ffa657',
+  },
+}
+
+const TOKEN_CLASSES = ['comment', 'keyword', 'string', 'number', 'literal', 'function', 'type', 'tag', 'attr', 'property', 'variable']
+
+/** Stylesheet for the token, line and title classes `renderCodeBlock` emits */
+export function getHighlightThemeCss(theme: HighlightTheme = 'light'): string {
+  const colors = THEME_COLORS[theme]
+  return [
+    `.hl { background: ${colors.background}; color: ${colors.text}; padding: 1em 0; overflow-x: auto; }`,
+    '.hl code { background: none; padding: 0; }',
+    '.hl .line { display: inline-block; min-width: 100%; padding: 0 1em; box-sizing: border-box; }',
+    `.hl .line.is-highlighted { background: ${colors.highlight}; }`,
+    `.hl.has-line-numbers .line::before { content: attr(data-line); display: inline-block; width: 2em; margin-right: 1em; text-align: right; color: ${colors.muted}; user-select: none; }`,
+    `.code-block { margin: 1em 0; }`,
+    `.code-block .code-title { background: ${colors.background}; color: ${colors.muted}; border-bottom: 1px solid ${colors.muted}; padding: 0.5em 1em; font-family: monospace; font-size: 0.875em; }`,
+    '.code-block .hl { margin: 0; }',
+    ...TOKEN_CLASSES.map((name) => `.hl-${name} { color: ${colors[name]}; }`),
+    '.hl-comment { font-style: italic; }',
+    '',
+  ].join('\n')
+}
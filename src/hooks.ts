@@ -0,0 +1,42 @@
+import type { BuildHooks, BuilderConfig, RenderPlan } from './config.js'
+
+type TransformHookName = 'beforeParse' | 'afterRender' | 'beforeWrite'
+type TransformHookContext<K extends TransformHookName> = Parameters<NonNullable<BuildHooks[K]>>[1]
+
+function getHookSets(config: BuilderConfig): readonly BuildHooks[] {
+  if (!config.hooks) {
+    return []
+  }
+  return Array.isArray(config.hooks) ? config.hooks : [config.hooks as BuildHooks]
+}
+
+/**
+ * Passes `value` through every configured `name` hook in order. Each hook
+ * must return a string; `location` names the page in the error otherwise.
+ */
+export async function applyTransformHooks<K extends TransformHookName>(
+  config: BuilderConfig,
+  name: K,
+  value: string,
+  context: TransformHookContext<K>,
+  location: string,
+): Promise<string> {
+  let result = value
+  for (const hooks of getHookSets(config)) {
+    const hook = hooks[name] as ((value: string, context: TransformHookContext<K>) => string | Promise<string>) | undefined
+    if (!hook) {
+      continue
+    }
+    result = await hook(result, context)
+    if (typeof result !== 'string') {
+      throw new Error(`${location}: ${name} hook must return a string, got ${typeof result}`)
+    }
+  }
+  return result
+}
+
+export async function runAfterBuildHooks(config: BuilderConfig, plans: readonly RenderPlan[]): Promise<void> {
+  for (const hooks of getHookSets(config)) {
+    await hooks.afterBuild?.(plans)
+  }
+}
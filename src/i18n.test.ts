@@ -0,0 +1,42 @@
+import { test, expect, beforeEach, afterEach } from 'bun:test'
+import { mkdir, writeFile, rm } from 'node:fs/promises'
+import path from 'node:path'
+import { findMissingStrings, getStringsForLang, loadStrings, replaceStringPlaceholders } from './i18n.js'
+
+const TEST_DIR = path.join(process.cwd(), '.test-i18n')
+
+beforeEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+  await mkdir(TEST_DIR, { recursive: true })
+})
+
+afterEach(async () => {
+  await rm(TEST_DIR, { recursive: true, force: true })
+})
+
+test('loadStrings - reads one dictionary per language and reports missing keys', async () => {
+  await writeFile(path.join(TEST_DIR, 'en.json'), JSON.stringify({ book_cta: 'Book a class', back: 'Back' }))
+  await writeFile(path.join(TEST_DIR, 'fr.json'), JSON.stringify({ book_cta: 'Réserver' }))
+
+  const strings = await loadStrings(TEST_DIR, ['en', 'fr', 'nl'])
+
+  expect(strings.nl).toEqual({})
+  expect(getStringsForLang(strings, 'fr', 'en')).toEqual({ book_cta: 'Réserver', back: 'Back' })
+  expect(findMissingStrings(strings, 'en')).toEqual({ fr: ['back'], nl: ['book_cta', 'back'] })
+})
+
+test('loadStrings - rejects invalid files with the file name', async () => {
+  await writeFile(path.join(TEST_DIR, 'en.json'), JSON.stringify({ nested: { key: 'value' } }))
+  await expect(loadStrings(TEST_DIR, ['en'])).rejects.toThrow('en.json: "nested" must be a string')
+
+  await writeFile(path.join(TEST_DIR, 'en.json'), '{ "broken": ')
+  await expect(loadStrings(TEST_DIR, ['en'])).rejects.toThrow('en.json: invalid JSON')
+})
+
+test('replaceStringPlaceholders - escapes by default and reports unknown keys', () => {
+  const strings = { cta: 'Book & pay', bold: '<b>Now</b>' }
+
+  expect(replaceStringPlaceholders('{{t:cta}} {{{t:bold}}} {{ t:cta }}', strings)).toBe('Book &amp; pay <b>Now</b> Book &amp; pay')
+  expect(replaceStringPlaceholders('<a>{{t:missing}}</a>', strings)).toBe('<a>missing</a>')
+  expect(replaceStringPlaceholders('<a>{{t:missing}}</a>', strings, () => undefined)).toBe('<a>{{t:missing}}</a>')
+})
@@ -0,0 +1,90 @@
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { escapeHtml } from './utils.js'
+
+export type StringDictionary = Readonly<Record<string, string>>
+
+/** UI strings keyed by language, loaded from `i18n/<lang>.json` */
+export type SiteStrings = Readonly<Record<string, StringDictionary>>
+
+const STRING_PLACEHOLDER = /\{\{\{\s*t:([\w.-]+)\s*\}\}\}|\{\{\s*t:([\w.-]+)\s*\}\}/g
+
+export function getStringFilePath(i18nDir: string, lang: string): string {
+  return path.join(i18nDir, `${lang}.json`)
+}
+
+/**
+ * Reads one flat `{ "key": "text" }` dictionary. A missing file is an
+ * empty dictionary; anything other than string values is an error.
+ */
+export async function loadStringFile(filePath: string): Promise<StringDictionary> {
+  let source: string
+  try {
+    source = await readFile(filePath, 'utf-8')
+  } catch {
+    return {}
+  }
+
+  const fileName = path.relative(process.cwd(), filePath)
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch (error) {
+    throw new Error(`${fileName}: invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${fileName}: expected an object of strings`)
+  }
+  for (const [key, value] of Object.entries(parsed)) {
+    if (typeof value !== 'string') {
+      throw new Error(`${fileName}: "${key}" must be a string`)
+    }
+  }
+  return parsed as StringDictionary
+}
+
+export async function loadStrings(i18nDir: string, supportedLangs: readonly string[]): Promise<SiteStrings> {
+  const strings: Record<string, StringDictionary> = {}
+  for (const lang of supportedLangs) {
+    strings[lang] = await loadStringFile(getStringFilePath(i18nDir, lang))
+  }
+  return strings
+}
+
+/** The dictionary for `lang`, with `defaultLang` filling any gaps */
+export function getStringsForLang(strings: SiteStrings, lang: string, defaultLang: string): StringDictionary {
+  return { ...strings[defaultLang], ...strings[lang] }
+}
+
+/** Keys present in the default language but missing from each other language */
+export function findMissingStrings(strings: SiteStrings, defaultLang: string): Record<string, string[]> {
+  const defaults = Object.keys(strings[defaultLang] ?? {})
+  const missing: Record<string, string[]> = {}
+  for (const [lang, dictionary] of Object.entries(strings)) {
+    const keys = lang === defaultLang ? [] : defaults.filter((key) => !(key in dictionary))
+    if (keys.length > 0) {
+      missing[lang] = keys
+    }
+  }
+  return missing
+}
+
+/**
+ * Replaces `{{t:key}}` (HTML-escaped) and `{{{t:key}}}` (raw) with UI
+ * strings. Unknown keys are passed to `onMissing`, whose return value is
+ * used instead; returning `undefined` leaves the placeholder in place.
+ */
+export function replaceStringPlaceholders(
+  template: string,
+  strings: StringDictionary,
+  onMissing: (key: string) => string | undefined = (key) => key,
+): string {
+  return template.replace(STRING_PLACEHOLDER, (match, rawKey: string | undefined, escapedKey: string | undefined) => {
+    const key = rawKey ?? escapedKey!
+    const value = Object.hasOwn(strings, key) ? strings[key] : onMissing(key)
+    if (value === undefined) {
+      return match
+    }
+    return rawKey ? value : escapeHtml(value)
+  })
+}
@@ -5,12 +5,36 @@ export { checkLinks } from './link-checker.js'
 export { writeSitemap, buildAlternateLinks, resolveCanonicalRelative } from './sitemap.js'
 export { ensureTranslations } from './translations.js'
 export { getDefaultLang, getSupportedLangs } from './config.js'
+export { defineConfig, findConfigFile, loadConfig, validateConfig } from './config-loader.js'
+export type { LoadConfigOptions } from './config-loader.js'
 export { inferLangFromPath } from './frontmatter.js'
-export { extractSlugFromPath, normalizePathSeparators } from './utils.js'
+export { extractSlugFromPath, normalizePathSeparators, slugify } from './utils.js'
 export type {
+  AdmonitionConfig,
+  BuildHooks,
   BuilderConfig,
+  ConfigFile,
+  ConfigOverlay,
+  DataContext,
+  DefaultMeta,
   FrontMatter,
+  FrontMatterDiagnostic,
+  FrontMatterFieldSchema,
+  FrontMatterFieldType,
+  FrontMatterFormat,
+  FrontMatterSchema,
+  FrontMatterValue,
+  HeadTagsConfig,
+  HighlightConfig,
+  HighlightTheme,
+  LanguageSwitcherConfig,
+  LanguageSwitcherItem,
+  MarkdownPlugin,
   PageMeta,
+  Shortcode,
+  SlugMode,
+  StructuredDataConfig,
+  TocConfig,
   TranslationConfig,
   UtmParams,
 } from './config.js'
@@ -0,0 +1,57 @@
+import { test, expect } from 'bun:test'
+import { buildLanguageSwitcherItems, getNativeLanguageName, renderLanguageSwitcher } from './language-switcher.js'
+
+const PAGE_ALTERNATES = [
+  { lang: 'en', href: 'https://example.com/classes' },
+  { lang: 'fr', href: 'https://example.com/fr/classes' },
+  { lang: 'x-default', href: 'https://example.com/classes' },
+]
+const HOME_ALTERNATES = [
+  { lang: 'en', href: 'https://example.com/' },
+  { lang: 'fr', href: 'https://example.com/fr/' },
+  { lang: 'nl', href: 'https://example.com/nl/' },
+  { lang: 'x-default', href: 'https://example.com/' },
+]
+
+test('getNativeLanguageName - returns capitalised native names', () => {
+  expect(getNativeLanguageName('fr')).toBe('Français')
+  expect(getNativeLanguageName('nl')).toBe('Nederlands')
+  expect(getNativeLanguageName('not a tag')).toBe('NOT A TAG')
+})
+
+test('buildLanguageSwitcherItems - falls back to the home page of untranslated languages', () => {
+  const items = buildLanguageSwitcherItems('fr', PAGE_ALTERNATES, HOME_ALTERNATES, { en: 'EN' })
+
+  expect(items).toEqual([
+    { lang: 'en', label: 'EN', href: '/classes', current: false, fallback: false },
+    { lang: 'fr', label: 'Français', href: '/fr/classes', current: true, fallback: false },
+    { lang: 'nl', label: 'Nederlands', href: '/nl/', current: false, fallback: true },
+  ])
+})
+
+test('renderLanguageSwitcher - renders list and dropdown variants with lang attributes', () => {
+  const items = buildLanguageSwitcherItems('en', PAGE_ALTERNATES)
+
+  expect(renderLanguageSwitcher(items, 'en', { variant: 'list' })).toBe(
+    '<nav class="language-switcher" aria-label="Language selector"><ul>' +
+      '<li><span lang="en" aria-current="page">English</span></li>' +
+      '<li><a href="/fr/classes" hreflang="fr" lang="fr">Français</a></li>' +
+      '</ul></nav>',
+  )
+  expect(renderLanguageSwitcher(items, 'en', { variant: 'dropdown' })).toBe(
+    '<details class="language-switcher"><summary lang="en" aria-label="Language selector">English</summary>' +
+      '<ul><li><a href="/fr/classes" hreflang="fr" lang="fr">Français</a></li></ul></details>',
+  )
+  expect(renderLanguageSwitcher(items, 'en')).toContain(
+    '<a href="/fr/classes" hreflang="fr" lang="fr" class="inline-flex',
+  )
+})
+
+test('renderLanguageSwitcher - uses a custom renderer and hides single languages', () => {
+  const items = buildLanguageSwitcherItems('en', PAGE_ALTERNATES)
+  const render = (entries: readonly { readonly lang: string }[], current: string): string =>
+    `${current}:${entries.map((entry) => entry.lang).join('|')}`
+
+  expect(renderLanguageSwitcher(items, 'en', { render })).toBe('en:en|fr')
+  expect(renderLanguageSwitcher(items.slice(0, 1), 'en', { render })).toBe('')
+})
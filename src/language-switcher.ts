@@ -0,0 +1,109 @@
+import type { LanguageSwitcherConfig, LanguageSwitcherItem, iAlternateLink } from './config.js'
+import { escapeHtml } from './utils.js'
+
+/**
+ * Returns a language's name in that language, e.g. `Français` for `fr`,
+ * falling back to the upper-cased code when the runtime has no name for it.
+ */
+export function getNativeLanguageName(lang: string): string {
+  try {
+    const name = new Intl.DisplayNames([lang], { type: 'language' }).of(lang)
+    if (name && name !== lang) {
+      return name.charAt(0).toLocaleUpperCase(lang) + name.slice(1)
+    }
+  } catch {
+    // Invalid or unknown language tag
+  }
+  return lang.toUpperCase()
+}
+
+/**
+ * Lists the languages a page can switch to. Languages the page has not
+ * been translated into link to that language's home page instead (taken
+ * from `homeAlternates`) and are marked as `fallback`.
+ */
+export function buildLanguageSwitcherItems(
+  currentLang: string,
+  alternates: readonly iAlternateLink[],
+  homeAlternates: readonly iAlternateLink[] = [],
+  labels: Readonly<Record<string, string>> = {},
+): LanguageSwitcherItem[] {
+  const translations = alternates.filter((alt) => alt.lang !== 'x-default')
+  const homes = homeAlternates.filter((alt) => alt.lang !== 'x-default')
+  const langs = [...new Set([...homes, ...translations].map((alt) => alt.lang))]
+
+  return langs.map((lang) => {
+    const translation = translations.find((alt) => alt.lang === lang)
+    const target = translation ?? homes.find((alt) => alt.lang === lang)!
+    return {
+      lang,
+      label: labels[lang] ?? getNativeLanguageName(lang),
+      href: new URL(target.href).pathname,
+      current: lang === currentLang,
+      fallback: !translation,
+    }
+  })
+}
+
+export function renderLanguageSwitcher(
+  items: readonly LanguageSwitcherItem[],
+  currentLang: string,
+  config: LanguageSwitcherConfig = {},
+): string {
+  if (items.length <= 1) {
+    return ''
+  }
+  if (config.render) {
+    return config.render(items, currentLang)
+  }
+
+  switch (config.variant ?? 'pills') {
+    case 'list':
+      return renderList(items)
+    case 'dropdown':
+      return renderDropdown(items)
+    default:
+      return renderPills(items)
+  }
+}
+
+function renderLink(item: LanguageSwitcherItem, className?: string): string {
+  const classAttribute = className ? ` class="${className}"` : ''
+  return `<a href="${escapeHtml(item.href)}" hreflang="${escapeHtml(item.lang)}" lang="${escapeHtml(item.lang)}"${classAttribute}>${escapeHtml(item.label)}</a>`
+}
+
+function renderPills(items: readonly LanguageSwitcherItem[]): string {
+  const pills = items
+    .map((item) => {
+      if (item.current) {
+        return `<span lang="${escapeHtml(item.lang)}" class="inline-flex items-center rounded-full bg-brand/10 px-3 py-1 text-xs font-semibold text-brand">${escapeHtml(item.label)}</span>`
+      }
+      return renderLink(
+        item,
+        'inline-flex items-center rounded-full border border-brand/30 px-3 py-1 text-xs font-semibold text-brand hover:bg-brand/10',
+      )
+    })
+    .join('<span class="text-slate-400">·</span>')
+
+  return `<div class="mb-6 flex flex-wrap items-center gap-2" aria-label="Language selector">${pills}</div>`
+}
+
+function renderList(items: readonly LanguageSwitcherItem[]): string {
+  const entries = items
+    .map((item) =>
+      item.current
+        ? `<li><span lang="${escapeHtml(item.lang)}" aria-current="page">${escapeHtml(item.label)}</span></li>`
+        : `<li>${renderLink(item)}</li>`,
+    )
+    .join('')
+  return `<nav class="language-switcher" aria-label="Language selector"><ul>${entries}</ul></nav>`
+}
+
+function renderDropdown(items: readonly LanguageSwitcherItem[]): string {
+  const current = items.find((item) => item.current) ?? items[0]
+  const entries = items
+    .filter((item) => item !== current)
+    .map((item) => `<li>${renderLink(item)}</li>`)
+    .join('')
+  return `<details class="language-switcher"><summary lang="${escapeHtml(current.lang)}" aria-label="Language selector">${escapeHtml(current.label)}</summary><ul>${entries}</ul></details>`
+}
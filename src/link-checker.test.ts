@@ -47,6 +47,26 @@ test('checkLinks - passes when anchor links match IDs with different casing', as
   await checkLinks(TEST_DIR)
 })
 
+test('checkLinks - matches percent-encoded non-ASCII anchors', async () => {
+  const html = `
+    <h2 id="été">Été</h2>
+    <a href="#%C3%A9t%C3%A9">Summer</a>
+  `
+  await writeFile(path.join(TEST_DIR, 'index.html'), html)
+
+  await checkLinks(TEST_DIR, 'unicode')
+})
+
+test('checkLinks - unicode mode tells non-Latin anchors apart', async () => {
+  const html = `
+    <h2 id="日本語">日本語</h2>
+    <a href="#中文">Chinese</a>
+  `
+  await writeFile(path.join(TEST_DIR, 'index.html'), html)
+
+  await expect(checkLinks(TEST_DIR, 'unicode')).rejects.toThrow('Broken internal links found')
+})
+
 test('checkLinks - passes when internal links resolve to .html files', async () => {
   const indexFile = path.join(TEST_DIR, 'index.html')
   const targetDir = path.join(TEST_DIR, 'house-rules')
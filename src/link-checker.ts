@@ -1,6 +1,6 @@
 import { readFile, stat } from 'node:fs/promises'
 import path from 'node:path'
-import type { MissingLink } from './config.js'
+import type { MissingLink, SlugMode } from './config.js'
 import { collectHtmlFiles, slugifyAnchor, logWarning } from './utils.js'
 
 const SKIP_PREFIXES = ['mailto:', 'tel:', 'javascript:', 'data:']
@@ -22,14 +22,25 @@ function extractAnchor(href: string): string | null {
   return href.slice(hashIndex + 1) || null
 }
 
-function extractIdsFromHtml(html: string): Set<string> {
+// Hrefs may percent-encode non-ASCII anchors such as `#%C3%A9t%C3%A9`
+function normalizeAnchor(anchor: string, slugMode?: SlugMode): string {
+  let decoded = anchor
+  try {
+    decoded = decodeURIComponent(anchor)
+  } catch {
+    // Not valid percent-encoding; compare it as written
+  }
+  return slugifyAnchor(decoded, slugMode)
+}
+
+function extractIdsFromHtml(html: string, slugMode?: SlugMode): Set<string> {
   const ids = new Set<string>()
   // Match id="..." or id='...'
   const idMatches = html.matchAll(/id=["']([^"']+)["']/gi)
   for (const match of idMatches) {
     if (match[1]) {
       // Normalize IDs to match how anchors are normalized when checking
-      ids.add(slugifyAnchor(match[1]))
+      ids.add(normalizeAnchor(match[1], slugMode))
     }
   }
   return ids
@@ -85,7 +96,12 @@ function extractHrefs(html: string): string[] {
   return matches.map((match) => match.slice(6, -1))
 }
 
-export async function checkLinks(outputDir: string): Promise<void> {
+/**
+ * Checks internal links and anchors in the built HTML. Ids and anchors are
+ * compared after slugging both with `slugMode`, the mode the pages were
+ * built with.
+ */
+export async function checkLinks(outputDir: string, slugMode?: SlugMode): Promise<void> {
   const resolvedOutputDir = path.resolve(outputDir)
   const htmlFiles = await collectHtmlFiles(resolvedOutputDir)
   if (htmlFiles.length === 0) {
@@ -98,7 +114,7 @@ export async function checkLinks(outputDir: string): Promise<void> {
   for (const file of htmlFiles) {
     const content = await readFile(file, 'utf-8')
     const hrefs = extractHrefs(content)
-    const fileIds = extractIdsFromHtml(content)
+    const fileIds = extractIdsFromHtml(content, slugMode)
 
     for (const href of hrefs) {
       if (isSkippableHref(href)) {
@@ -110,7 +126,7 @@ export async function checkLinks(outputDir: string): Promise<void> {
         const anchor = href.slice(1)
         if (anchor) {
           // IDs are always normalized by slugifyAnchor, so normalize the anchor from href
-          const normalizedAnchor = slugifyAnchor(anchor)
+          const normalizedAnchor = normalizeAnchor(anchor, slugMode)
           if (!fileIds.has(normalizedAnchor)) {
             missing.push({
               fromFile: file,
@@ -139,9 +155,9 @@ export async function checkLinks(outputDir: string): Promise<void> {
       if (anchor && targetFile) {
         try {
           const targetContent = await readFile(targetFile, 'utf-8')
-          const ids = extractIdsFromHtml(targetContent)
+          const ids = extractIdsFromHtml(targetContent, slugMode)
           // IDs are always normalized by slugifyAnchor, so normalize the anchor from href
-          const normalizedAnchor = slugifyAnchor(anchor)
+          const normalizedAnchor = normalizeAnchor(anchor, slugMode)
           if (!ids.has(normalizedAnchor)) {
             missing.push({
               fromFile: file,
@@ -37,3 +37,60 @@ test('createMarkdownRenderer - trims leading/trailing hyphens from anchor IDs',
   expect(result).not.toContain('id="-whats-happening-at-ropelabs"')
 })
 
+test('createMarkdownRenderer - gives repeated headings unique ids', () => {
+  const md = createMarkdownRenderer()
+  const result = md.render('## Équipement\n\n## Intro\n\n## Intro\n\n## 日本語\n\n## 日本語\n\n## Intro')
+  expect(result).toContain('id="equipement"')
+  expect(result).toContain('id="intro"')
+  expect(result).toContain('id="intro-1"')
+  expect(result).toContain('id="intro-2"')
+  expect(result).toContain('id="日本語"')
+  expect(result).toContain('id="日本語-1"')
+})
+
+test('createMarkdownRenderer - keeps the legacy ids for ASCII headings', () => {
+  const md = createMarkdownRenderer()
+  expect(md.render('## Node.js setup\n\n## v1.2 release\n\n## Q&A')).toBe(
+    '<h2 id="nodejs-setup" tabindex="-1">Node.js setup</h2>\n' +
+      '<h2 id="v12-release" tabindex="-1">v1.2 release</h2>\n' +
+      '<h2 id="qa" tabindex="-1">Q&amp;A</h2>\n',
+  )
+})
+
+test('createMarkdownRenderer - follows slugMode for non-ASCII heading ids', () => {
+  expect(createMarkdownRenderer(undefined, [], [], undefined, {}, 'unicode').render('## Été')).toContain('id="été"')
+  expect(createMarkdownRenderer(undefined, [], [], undefined, {}, 'transliterate').render('## Привет')).toContain(
+    'id="privet"',
+  )
+})
+
+test('createMarkdownRenderer - applies plugins with their parameters', () => {
+  const calls: unknown[][] = []
+  const md = createMarkdownRenderer(undefined, [], [
+    (instance) => {
+      instance.renderer.rules.hr = () => '<hr class="divider">\n'
+    },
+    [(_instance, ...params: unknown[]) => calls.push(params), 'note', { marker: '!' }],
+  ])
+
+  expect(md.render('---')).toBe('<hr class="divider">\n')
+  expect(calls).toEqual([['note', { marker: '!' }]])
+})
+
+test('createMarkdownRenderer - highlights fences without dropping token attributes', () => {
+  const md = createMarkdownRenderer(undefined, [], [
+    (instance) => {
+      instance.core.ruler.push('fence-class', (state) => {
+        state.tokens.filter((token) => token.type === 'fence').forEach((token) => token.attrJoin('class', 'sample'))
+      })
+    },
+  ], {})
+
+  expect(md.render('```js\nx\n```\n')).toBe(
+    '<pre class="hl"><code class="language-js sample"><span class="line">x</span>\n</code></pre>\n',
+  )
+
+  // A markdown-it `highlight` function keeps markdown-it's own fence rule
+  const custom = createMarkdownRenderer({ highlight: (code) => `<b>${code}</b>` }, [], [], {})
+  expect(custom.render('```js\nx\n```\n')).toBe('<pre><code class="language-js"><b>x\n</b></code></pre>\n')
+})
@@ -1,9 +1,29 @@
 import MarkdownIt from 'markdown-it'
 import type { Options as MarkdownItOptions } from 'markdown-it'
 import markdownItAnchor from 'markdown-it-anchor'
+import type { AdmonitionConfig, HighlightConfig, MarkdownPlugin, SlugMode } from './config.js'
+import { admonitionPlugin } from './admonitions.js'
+import { renderCodeBlock } from './highlight.js'
 import { slugifyAnchor } from './utils.js'
 
-export function createMarkdownRenderer(options?: MarkdownItOptions): MarkdownIt {
+const DEFAULT_ANCHOR_LEVELS = [1, 2, 3]
+
+/**
+ * Creates the markdown renderer. Headings get ids for levels 1-3 plus any
+ * extra `anchorLevels`, e.g. those a table of contents lists. With
+ * `highlight`, fenced code is highlighted at build time. `:::note` style
+ * containers are on unless `admonitions` is false. `plugins` are applied
+ * after the built-in ones, so they can replace any of them. Heading ids
+ * follow `slugMode`; markdown-it-anchor gives repeats `-1`, `-2` and so on.
+ */
+export function createMarkdownRenderer(
+  options?: MarkdownItOptions,
+  anchorLevels: readonly number[] = [],
+  plugins: readonly MarkdownPlugin[] = [],
+  highlight?: HighlightConfig,
+  admonitions: false | AdmonitionConfig = {},
+  slugMode?: SlugMode,
+): MarkdownIt {
   const defaultOptions: MarkdownItOptions = {
     html: true,
     linkify: true,
@@ -16,11 +36,36 @@ export function createMarkdownRenderer(options?: MarkdownItOptions): MarkdownIt
   })
 
   md.use(markdownItAnchor, {
-    level: [1, 2, 3],
+    level: [...new Set([...DEFAULT_ANCHOR_LEVELS, ...anchorLevels])].sort((a, b) => a - b),
     permalink: false,
-    slugify: slugifyAnchor,
+    slugify: (text: string) => slugifyAnchor(text, slugMode),
   })
 
+  if (admonitions !== false) {
+    md.use(admonitionPlugin, admonitions)
+  }
+
+  if (highlight) {
+    const previous = md.renderer.rules.fence
+    md.renderer.rules.fence = (tokens, index, options, env, self) => {
+      const token = tokens[index]
+      // A `highlight` function in `markdownOptions` is left to markdown-it
+      if (options.highlight && previous) {
+        return previous(tokens, index, options, env, self)
+      }
+      return renderCodeBlock(token.content, token.info, highlight, token.attrs ?? [])
+    }
+  }
+
+  for (const plugin of plugins) {
+    if (typeof plugin === 'function') {
+      md.use(plugin)
+    } else {
+      const [use, ...params] = plugin
+      md.use(use, ...params)
+    }
+  }
+
   return md
 }
 
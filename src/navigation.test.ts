@@ -0,0 +1,126 @@
+import { test, expect } from 'bun:test'
+import type { PageMeta, RenderPlan } from './config.js'
+import {
+  buildNavTree,
+  findAdjacentPages,
+  findNavPath,
+  renderAdjacentLink,
+  renderBreadcrumbs,
+  renderNav,
+} from './navigation.js'
+
+function plan(relativeOutput: string, meta: Partial<PageMeta> = {}): RenderPlan {
+  return {
+    sourcePath: `/content/${relativeOutput.replace(/\.html$/, '.md')}`,
+    outputPath: `/docs/${relativeOutput}`,
+    relativeOutput,
+    html: '',
+    meta: {
+      title: relativeOutput,
+      description: '',
+      sidebarTitle: '',
+      sidebarSummary: '',
+      backLinkHref: '/',
+      backLinkLabel: 'Back',
+      lang: 'en',
+      ...meta,
+      output: relativeOutput,
+    },
+  }
+}
+
+const PLANS = [
+  plan('index.html', { title: 'Home', weight: 1 }),
+  plan('about.html', { title: 'About us', navTitle: 'About', weight: 3 }),
+  plan('classes/index.html', { title: 'All classes', weight: 2 }),
+  plan('classes/silks.html', { title: 'Silks', order: 2 }),
+  plan('classes/hoop.html', { title: 'Hoop', weight: 1 }),
+  plan('classes/trapeze.html', { title: 'Trapeze' }),
+  plan('shop/gift-cards.html', { title: 'Gift cards' }),
+  plan('private.html', { title: 'Private', nav: false }),
+  plan('fr/index.html', { title: 'Accueil', lang: 'fr' }),
+  plan('fr/classes/silks.html', { title: 'Tissu', lang: 'fr' }),
+]
+
+test('buildNavTree - orders pages by weight then title and hides nav: false', () => {
+  const tree = buildNavTree(PLANS, 'en', 'https://example.com')
+
+  expect(tree.map((node) => [node.title, node.href])).toEqual([
+    ['Home', '/'],
+    ['All classes', '/classes'],
+    ['About', '/about'],
+    ['Shop', undefined],
+  ])
+  expect(tree[1].children.map((node) => node.title)).toEqual(['Hoop', 'Silks', 'Trapeze'])
+  expect(tree[3].children.map((node) => node.href)).toEqual(['/shop/gift-cards'])
+})
+
+test('buildNavTree - builds a separate tree per language', () => {
+  const tree = buildNavTree(PLANS, 'fr', 'https://example.com')
+
+  expect(tree.map((node) => node.title)).toEqual(['Accueil', 'Classes'])
+  expect(tree[1].children).toEqual([
+    { title: 'Tissu', href: '/fr/classes/silks', output: 'fr/classes/silks.html', weight: undefined, children: [] },
+  ])
+})
+
+test('renderNav - marks the active page and its ancestors', () => {
+  const tree = buildNavTree(PLANS, 'en', 'https://example.com')
+  const html = renderNav(tree, 'classes/silks.html')
+
+  expect(html).toStartWith('<nav class="site-nav" aria-label="Site navigation"><ul><li><a href="/">Home</a></li>')
+  expect(html).toContain('<li class="is-ancestor"><a href="/classes">All classes</a><ul>')
+  expect(html).toContain('<li class="is-active"><a href="/classes/silks" aria-current="page">Silks</a></li>')
+  expect(html).toContain('<li><span>Shop</span><ul>')
+  expect(findNavPath(tree, 'classes/silks.html').map((node) => node.title)).toEqual(['All classes', 'Silks'])
+  expect(renderNav([], 'index.html')).toBe('')
+})
+
+test('renderBreadcrumbs - links each level above the page in its language', () => {
+  const tree = buildNavTree(PLANS, 'en', 'https://example.com')
+
+  expect(renderBreadcrumbs(tree, 'classes/silks.html', 'en')).toBe(
+    '<nav class="breadcrumbs" aria-label="Breadcrumb"><ol><li><a href="/">Home</a></li><li><a href="/classes">All classes</a></li><li aria-current="page">Silks</li></ol></nav>',
+  )
+  expect(renderBreadcrumbs(tree, 'shop/gift-cards.html', 'en')).toContain('<li><span>Shop</span></li>')
+  expect(renderBreadcrumbs(tree, 'index.html', 'en')).toBe('')
+  expect(renderBreadcrumbs(tree, 'private.html', 'en')).toBe('')
+
+  const fr = buildNavTree(PLANS, 'fr', 'https://example.com')
+  expect(renderBreadcrumbs(fr, 'fr/classes/silks.html', 'fr')).toBe(
+    '<nav class="breadcrumbs" aria-label="Breadcrumb"><ol><li><a href="/fr">Accueil</a></li><li><span>Classes</span></li><li aria-current="page">Tissu</li></ol></nav>',
+  )
+})
+
+test('renderBreadcrumbs - finds the home page by its path, not its position', () => {
+  // Without weights "Classes" sorts before "index", and its index page must not pass for the home page
+  const tree = buildNavTree(
+    [
+      plan('index.html', { title: 'Home' }),
+      plan('classes/index.html', { title: 'Classes' }),
+      plan('classes/beginner.html', { title: 'Beginner' }),
+    ],
+    'en',
+    'https://example.com',
+  )
+
+  expect(tree.map((node) => node.title)).toEqual(['Classes', 'Home'])
+  expect(renderBreadcrumbs(tree, 'classes/beginner.html', 'en')).toBe(
+    '<nav class="breadcrumbs" aria-label="Breadcrumb"><ol><li><a href="/">Home</a></li><li><a href="/classes">Classes</a></li><li aria-current="page">Beginner</li></ol></nav>',
+  )
+  expect(renderBreadcrumbs(tree, 'index.html', 'en')).toBe('')
+})
+
+test('findAdjacentPages - steps through a section in menu order', () => {
+  const tree = buildNavTree(PLANS, 'en', 'https://example.com')
+
+  const middle = findAdjacentPages(tree, 'classes/silks.html')
+  expect(renderAdjacentLink(middle.prev, 'prev')).toBe('<a href="/classes/hoop" rel="prev" class="prev-link">Hoop</a>')
+  expect(renderAdjacentLink(middle.next, 'next')).toBe('<a href="/classes/trapeze" rel="next" class="next-link">Trapeze</a>')
+
+  const first = findAdjacentPages(tree, 'classes/hoop.html')
+  expect(first.prev).toBeUndefined()
+  expect(first.next?.title).toBe('Silks')
+  expect(findAdjacentPages(tree, 'about.html')).toEqual({})
+  expect(renderAdjacentLink(undefined, 'next')).toBe('')
+})
@@ -0,0 +1,192 @@
+import type { RenderPlan } from './config.js'
+import { escapeHtml, humanizeSlug, toPageUrl } from './utils.js'
+
+export interface NavNode {
+  readonly title: string
+  /** Site-relative clean URL; undefined for directories without an index page */
+  readonly href?: string
+  /** `relativeOutput` of the page, if the node has one */
+  readonly output?: string
+  readonly weight?: number
+  readonly children: readonly NavNode[]
+}
+
+interface MutableNavNode {
+  title: string
+  href?: string
+  output?: string
+  weight?: number
+  readonly children: Map<string, MutableNavNode>
+}
+
+/**
+ * Builds the navigation tree for one language from the output paths of
+ * its pages. A directory's `index.html` supplies the directory's title and
+ * link. Pages with `nav: false` are left out, as are their descendants.
+ * Siblings are ordered by `weight` (or `order`), then title.
+ */
+export function buildNavTree(plans: readonly RenderPlan[], lang: string, baseUrl: string): NavNode[] {
+  const root: MutableNavNode = { title: '', children: new Map() }
+  const hidden: string[][] = []
+
+  for (const plan of plans.filter((entry) => entry.meta.lang === lang)) {
+    const segments = getNavSegments(plan.relativeOutput, lang)
+    if (plan.meta.nav === false) {
+      hidden.push(segments)
+      continue
+    }
+
+    let node = root
+    segments.forEach((segment, index) => {
+      const existing = node.children.get(segment)
+      const child = existing ?? { title: humanizeSlug(segment), children: new Map() }
+      if (!existing) {
+        node.children.set(segment, child)
+      }
+      node = child
+      if (index === segments.length - 1) {
+        node.title = plan.meta.navTitle ?? plan.meta.title
+        node.href = new URL(toPageUrl(plan.relativeOutput, baseUrl)).pathname
+        node.output = plan.relativeOutput
+        node.weight = toWeight(plan.meta.weight ?? plan.meta.order)
+      }
+    })
+  }
+
+  for (const segments of hidden) {
+    removeNode(root, segments)
+  }
+  return freeze(root)
+}
+
+/**
+ * Renders the tree as nested lists. The current page gets `is-active` and
+ * `aria-current="page"`; the directories above it get `is-ancestor`.
+ */
+export function renderNav(tree: readonly NavNode[], activeOutput: string): string {
+  if (tree.length === 0) {
+    return ''
+  }
+  return `<nav class="site-nav" aria-label="Site navigation">${renderNavList(tree, activeOutput)}</nav>`
+}
+
+/** Nodes from the top of the tree down to the page, or `[]` if it is not in the tree */
+export function findNavPath(tree: readonly NavNode[], output: string): NavNode[] {
+  for (const node of tree) {
+    if (node.output === output) {
+      return [node]
+    }
+    const below = findNavPath(node.children, output)
+    if (below.length > 0) {
+      return [node, ...below]
+    }
+  }
+  return []
+}
+
+/**
+ * Renders the trail from the home page of `lang` (`index.html` or
+ * `<lang>/index.html`) to the current page, which is shown without a link.
+ * Empty on the home page and for pages hidden from the navigation.
+ */
+export function renderBreadcrumbs(tree: readonly NavNode[], output: string, lang: string): string {
+  const trail = findNavPath(tree, output)
+  const home = tree.find((node) => node.output === 'index.html' || node.output === `${lang}/index.html`)
+  if (trail.length === 0 || trail[0] === home) {
+    return ''
+  }
+
+  const items = [...(home ? [home] : []), ...trail].map((node, index, all) => {
+    const label = escapeHtml(node.title)
+    if (index === all.length - 1) {
+      return `<li aria-current="page">${label}</li>`
+    }
+    return node.href ? `<li><a href="${escapeHtml(node.href)}">${label}</a></li>` : `<li><span>${label}</span></li>`
+  })
+  return `<nav class="breadcrumbs" aria-label="Breadcrumb"><ol>${items.join('')}</ol></nav>`
+}
+
+/**
+ * Finds the pages before and after the current one within its section,
+ * in navigation order. Top-level pages have no neighbours.
+ */
+export function findAdjacentPages(
+  tree: readonly NavNode[],
+  output: string,
+): { readonly prev?: NavNode; readonly next?: NavNode } {
+  const trail = findNavPath(tree, output)
+  const section = trail[trail.length - 2]
+  if (!section) {
+    return {}
+  }
+  const pages = section.children.filter((node) => node.href)
+  const index = pages.findIndex((node) => node.output === output)
+  return { prev: pages[index - 1], next: pages[index + 1] }
+}
+
+export function renderAdjacentLink(node: NavNode | undefined, rel: 'prev' | 'next'): string {
+  if (!node?.href) {
+    return ''
+  }
+  return `<a href="${escapeHtml(node.href)}" rel="${rel}" class="${rel}-link">${escapeHtml(node.title)}</a>`
+}
+
+function renderNavList(nodes: readonly NavNode[], activeOutput: string): string {
+  const items = nodes.map((node) => {
+    const isActive = node.output === activeOutput
+    const isAncestor = !isActive && findNavPath(node.children, activeOutput).length > 0
+    const className = isActive ? ' class="is-active"' : isAncestor ? ' class="is-ancestor"' : ''
+    const label = escapeHtml(node.title)
+    const link = node.href
+      ? `<a href="${escapeHtml(node.href)}"${isActive ? ' aria-current="page"' : ''}>${label}</a>`
+      : `<span>${label}</span>`
+    const children = node.children.length > 0 ? renderNavList(node.children, activeOutput) : ''
+    return `<li${className}>${link}${children}</li>`
+  })
+  return `<ul>${items.join('')}</ul>`
+}
+
+/** Output path segments without the language directory or a trailing `index` */
+function getNavSegments(relativeOutput: string, lang: string): string[] {
+  const segments = relativeOutput.replace(/\.html$/, '').split('/')
+  if (segments.length > 1 && segments[0] === lang) {
+    segments.shift()
+  }
+  if (segments.length > 1 && segments[segments.length - 1] === 'index') {
+    segments.pop()
+  }
+  return segments
+}
+
+function removeNode(root: MutableNavNode, segments: readonly string[]): void {
+  const parent = segments.slice(0, -1).reduce<MutableNavNode | undefined>(
+    (node, segment) => node?.children.get(segment),
+    root,
+  )
+  parent?.children.delete(segments[segments.length - 1])
+}
+
+function freeze(node: MutableNavNode): NavNode[] {
+  return [...node.children.values()]
+    .map((child) => ({
+      title: child.title,
+      href: child.href,
+      output: child.output,
+      weight: child.weight,
+      children: freeze(child),
+    }))
+    .sort(compareNavNodes)
+}
+
+function compareNavNodes(a: NavNode, b: NavNode): number {
+  if (a.weight !== b.weight) {
+    // Weighted pages come first
+    return (a.weight ?? Number.POSITIVE_INFINITY) - (b.weight ?? Number.POSITIVE_INFINITY)
+  }
+  return a.title.localeCompare(b.title)
+}
+
+function toWeight(value: unknown): number | undefined {
+  const weight = typeof value === 'string' ? Number(value) : value
+  return typeof weight === 'number' && Number.isFinite(weight) ? weight : undefined
+}
@@ -0,0 +1,111 @@
+import { test, expect } from 'bun:test'
+import { reportFrontMatterDiagnostics, validateFrontMatter } from './schema.js'
+import { extractFrontMatter } from './frontmatter.js'
+import type { FrontMatterSchema } from './config.js'
+
+const defaults = {
+  title: 'Site',
+  description: 'Site description',
+  sidebarTitle: 'Site',
+  sidebarSummary: 'Summary',
+  backLinkHref: '/',
+  backLinkLabel: 'Back',
+  heroImage: 'img/hero.png',
+}
+
+const schema: FrontMatterSchema = {
+  fields: {
+    category: { type: 'string', required: true, enum: ['class', 'event'] },
+    tags: { type: 'array' },
+    publishDate: { type: 'date' },
+    order: { type: 'number' },
+  },
+  unknownKeys: 'error',
+}
+
+function validate(source: string, pageSchema: FrontMatterSchema = schema) {
+  const { meta, keyLines } = extractFrontMatter(source)
+  return validateFrontMatter(meta, keyLines, pageSchema, defaults, 'content/page.md')
+}
+
+test('validateFrontMatter - accepts valid front matter', () => {
+  const diagnostics = validate(`---
+title: Page
+category: class
+tags: [a, b]
+publishDate: 2024-03-01
+heroImage: img/other.png
+---
+Body`)
+  expect(diagnostics).toEqual([])
+})
+
+test('validateFrontMatter - reports every violation with its line', () => {
+  const diagnostics = validate(`---
+title: Page
+category: workshop
+order: first
+noindx: true
+---
+Body`)
+  expect(diagnostics.map((d) => `${d.line}: ${d.message}`)).toEqual([
+    '3: "category" must be one of "class", "event", got "workshop"',
+    '4: "order" must be a number, got a string',
+    '5: unknown key "noindx" (did you mean "noindex"?)',
+  ])
+})
+
+test('validateFrontMatter - reports missing required fields', () => {
+  const diagnostics = validate(`---
+title: Page
+---
+Body`)
+  expect(diagnostics).toHaveLength(1)
+  expect(diagnostics[0]?.message).toBe('missing required field "category"')
+  expect(diagnostics[0]?.line).toBe(1)
+})
+
+test('validateFrontMatter - unknown key policy', () => {
+  const source = `---
+category: class
+ogimage: img/a.png
+---
+Body`
+  expect(validate(source, { ...schema, unknownKeys: 'allow' })).toEqual([])
+  const warnings = validate(source, { ...schema, unknownKeys: 'warn' })
+  expect(warnings[0]?.severity).toBe('warning')
+  expect(warnings[0]?.message).toBe('unknown key "ogimage" (did you mean "ogImage"?)')
+})
+
+test('validateFrontMatter - locates keys in TOML and JSON front matter', () => {
+  const toml = validate(`+++
+category = "class"
+order = "first"
++++
+Body`)
+  expect(toml[0]?.line).toBe(3)
+
+  const json = validate(`{
+  "category": "class",
+  "seo": { "order": 1 },
+  "order": "first"
+}
+Body`, { ...schema, unknownKeys: 'allow' })
+  expect(json[0]?.line).toBe(4)
+})
+
+test('reportFrontMatterDiagnostics - throws listing all errors', () => {
+  const diagnostics = validate(`---
+category: workshop
+noindx: true
+---
+Body`)
+  expect(() => reportFrontMatterDiagnostics(diagnostics)).toThrow(
+    /Front matter validation failed:\n- content\/page\.md:2: .*\n- content\/page\.md:3: unknown key "noindx"/,
+  )
+  expect(() => reportFrontMatterDiagnostics(diagnostics, [new Error('content/other.md:4: unexpected indentation')])).toThrow(
+    /^Build failed:\n- content\/page\.md:2: .*\n- content\/page\.md:3: .*\n- content\/other\.md:4: unexpected indentation$/,
+  )
+  const failure = new Error('content/other.md:4: unexpected indentation')
+  expect(() => reportFrontMatterDiagnostics([], [failure])).toThrow(failure)
+})
@@ -0,0 +1,138 @@
+import path from 'node:path'
+import type {
+  FrontMatter,
+  FrontMatterDiagnostic,
+  FrontMatterFieldSchema,
+  FrontMatterFieldType,
+  FrontMatterSchema,
+  FrontMatterValue,
+} from './config.js'
+import { BUILT_IN_FRONT_MATTER_KEYS } from './frontmatter.js'
+import { findClosestMatch, logWarning } from './utils.js'
+
+/**
+ * Checks a page's front matter against the configured schema. Required
+ * fields may be satisfied by `defaults`; types, enums and unknown keys are
+ * only checked for keys the page sets itself.
+ */
+export function validateFrontMatter(
+  meta: FrontMatter,
+  keyLines: Readonly<Record<string, number>>,
+  schema: FrontMatterSchema,
+  defaults: FrontMatter,
+  sourcePath: string,
+): FrontMatterDiagnostic[] {
+  const fields = schema.fields ?? {}
+  const unknownKeys = schema.unknownKeys ?? 'warn'
+  const knownKeys = new Set([...BUILT_IN_FRONT_MATTER_KEYS, ...Object.keys(defaults), ...Object.keys(fields)])
+  const diagnostics: FrontMatterDiagnostic[] = []
+
+  const report = (key: string | undefined, message: string, severity: FrontMatterDiagnostic['severity'] = 'error'): void => {
+    diagnostics.push({
+      sourcePath,
+      line: (key !== undefined ? keyLines[key] : undefined) ?? 1,
+      key,
+      message,
+      severity,
+    })
+  }
+
+  for (const [key, field] of Object.entries(fields)) {
+    const value = meta[key] ?? defaults[key]
+    if (field.required && (value === undefined || value === null || value === '')) {
+      report(key, `missing required field "${key}"`)
+    }
+  }
+
+  for (const [key, value] of Object.entries(meta)) {
+    if (value === undefined) {
+      continue
+    }
+
+    const field = fields[key]
+    if (field) {
+      const problem = checkField(value, field)
+      if (problem) {
+        report(key, `"${key}" ${problem}`)
+      }
+      continue
+    }
+
+    if (!knownKeys.has(key) && unknownKeys !== 'allow') {
+      const suggestion = findClosestMatch(key, [...knownKeys])
+      const hint = suggestion ? ` (did you mean "${suggestion}"?)` : ''
+      report(key, `unknown key "${key}"${hint}`, unknownKeys === 'error' ? 'error' : 'warning')
+    }
+  }
+
+  return diagnostics
+}
+
+function checkField(value: FrontMatterValue, field: FrontMatterFieldSchema): string | null {
+  if (value === null) {
+    return field.required ? 'must not be empty' : null
+  }
+
+  if (field.type) {
+    const allowed: readonly FrontMatterFieldType[] = typeof field.type === 'string' ? [field.type] : field.type
+    const actual = typeOfValue(value)
+    const matches = allowed.includes(actual) || (allowed.includes('date') && isDateString(value))
+    if (!matches) {
+      return `must be ${allowed.map(withArticle).join(' or ')}, got ${withArticle(actual)}`
+    }
+  }
+
+  if (field.enum && !field.enum.includes(value as string | number | boolean)) {
+    return `must be one of ${field.enum.map((option) => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`
+  }
+
+  return null
+}
+
+function typeOfValue(value: FrontMatterValue): FrontMatterFieldType {
+  if (value instanceof Date) {
+    return 'date'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  return typeof value as FrontMatterFieldType
+}
+
+// JSON front matter has no date type, so ISO date strings count as dates
+function isDateString(value: FrontMatterValue): boolean {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function withArticle(type: FrontMatterFieldType): string {
+  return type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`
+}
+
+/**
+ * Logs warnings and throws a single error listing every front matter
+ * error, so all problems can be fixed in one pass. Other `failures` from
+ * reading the same pages, e.g. a YAML syntax error, are listed with them;
+ * a lone failure is rethrown as is.
+ */
+export function reportFrontMatterDiagnostics(
+  diagnostics: readonly FrontMatterDiagnostic[],
+  failures: readonly Error[] = [],
+): void {
+  const format = (diagnostic: FrontMatterDiagnostic): string =>
+    `${path.relative(process.cwd(), diagnostic.sourcePath)}:${diagnostic.line}: ${diagnostic.message}`
+
+  diagnostics
+    .filter((diagnostic) => diagnostic.severity === 'warning')
+    .forEach((diagnostic) => logWarning(format(diagnostic)))
+
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error')
+  if (errors.length === 0 && failures.length === 1) {
+    throw failures[0]
+  }
+  if (errors.length > 0 || failures.length > 0) {
+    const details = [...errors.map(format), ...failures.map((failure) => failure.message)]
+      .map((line) => `- ${line}`)
+      .join('\n')
+    throw new Error(`${failures.length > 0 ? 'Build failed' : 'Front matter validation failed'}:\n${details}`)
+  }
+}
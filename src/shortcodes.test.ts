@@ -0,0 +1,82 @@
+import { test, expect } from 'bun:test'
+import type { PageMeta, Shortcode } from './config.js'
+import { createMarkdownRenderer } from './markdown.js'
+import { renderMarkdownWithToc } from './toc.js'
+import { expandShortcodes, restoreShortcodes, SHORTCODE_TAG_PATTERN } from './shortcodes.js'
+
+const META = { title: 'Silks', lang: 'en' } as PageMeta
+const md = createMarkdownRenderer()
+
+const SHORTCODES: Record<string, Shortcode> = {
+  badge: (args) => `<span class="badge">${args.text}</span>`,
+  video: (args) => `<iframe src="https://www.youtube-nocookie.com/embed/${args.id}"${args.autoplay ? ' allow="autoplay"' : ''}></iframe>`,
+  callout: async (args, content, meta) => `<div class="callout ${args.type}" data-page="${meta.title}">${content}</div>`,
+}
+
+async function render(markdown: string, shortcodes: Record<string, Shortcode> = SHORTCODES): Promise<string> {
+  const expanded = expandShortcodes(markdown, shortcodes, { fileName: 'content/silks.md', lineOffset: 3 })
+  return restoreShortcodes(md.render(expanded.markdown), expanded, META)
+}
+
+test('expandShortcodes - renders inline and block shortcodes with arguments', async () => {
+  expect(await render('New {{< badge text="class" >}} today')).toBe('<p>New <span class="badge">class</span> today</p>\n')
+  expect(await render('{{< video id=abc autoplay />}}\n\nAfter')).toBe(
+    '<iframe src="https://www.youtube-nocookie.com/embed/abc" allow="autoplay"></iframe>\n<p>After</p>\n',
+  )
+})
+
+test('expandShortcodes - passes rendered inner content and page meta to paired shortcodes', async () => {
+  const html = await render("{{< callout type='tip' >}}\nHold **tight** {{< badge text=\"!\" >}}\n{{< /callout >}}\n")
+
+  expect(html).toBe(
+    '<div class="callout tip" data-page="Silks"><p>Hold <strong>tight</strong> <span class="badge">!</span></p>\n</div>\n',
+  )
+})
+
+test('expandShortcodes - renders paired content with the rest of the page', async () => {
+  const markdown = '## Setup\n\n{{< callout type="tip" >}}\n## Setup\n\n- rig\n- warm up\n{{< /callout >}}\n'
+  const expanded = expandShortcodes(markdown, SHORTCODES, { fileName: 'content/silks.md' })
+  const rendered = renderMarkdownWithToc(md, expanded.markdown)
+
+  expect(await restoreShortcodes(rendered.html, expanded, META)).toBe(
+    '<h2 id="setup" tabindex="-1">Setup</h2>\n' +
+      '<div class="callout tip" data-page="Silks"><h2 id="setup-1" tabindex="-1">Setup</h2>\n' +
+      '<ul>\n<li>rig</li>\n<li>warm up</li>\n</ul>\n</div>\n',
+  )
+  expect(rendered.toc).toContain('<a href="#setup-1">Setup</a>')
+  expect(await render('> {{< callout type="tip" >}}\n> Hold on\n> {{< /callout >}}')).toBe(
+    '<blockquote>\n<div class="callout tip" data-page="Silks"><p>Hold on</p>\n</div>\n</blockquote>\n',
+  )
+  expect(await render('Hold {{< callout type="tip" >}}*tight*{{< /callout >}} now')).toBe(
+    '<p>Hold <div class="callout tip" data-page="Silks"><em>tight</em></div> now</p>\n',
+  )
+})
+
+test('expandShortcodes - leaves tags in fenced code blocks as written', async () => {
+  expect(await render('```md\n{{< map >}}\n{{</* video */>}}\n```\n\n~~~\n{{< /callout >}}\n~~~\n')).toBe(
+    '<pre><code class="language-md">{{&lt; map &gt;}}\n{{&lt;/* video */&gt;}}\n</code></pre>\n' +
+      '<pre><code>{{&lt; /callout &gt;}}\n</code></pre>\n',
+  )
+})
+
+test('expandShortcodes - reports unknown and unbalanced shortcodes with file and line', async () => {
+  await expect(render('Intro\n\n{{< map >}}')).rejects.toThrow(
+    'content/silks.md:6: unknown shortcode "map" (available: badge, video, callout)',
+  )
+  await expect(render('{{< /callout >}}')).rejects.toThrow('content/silks.md:4: {{< /callout >}} has no opening {{< callout >}}')
+  await expect(render('{{< video "abc" >}}')).rejects.toThrow('content/silks.md:4: invalid shortcode arguments')
+  await expect(render('{{< badge >}}', { badge: () => undefined as never })).rejects.toThrow(
+    'content/silks.md:4: shortcode "badge" must return a string, got undefined',
+  )
+})
+
+test('expandShortcodes - keeps escaped shortcodes as literal text', async () => {
+  expect(await render('Use `{{</* video id="abc" */>}}`')).toBe(
+    '<p>Use <code>{{&lt; video id=&quot;abc&quot; &gt;}}</code></p>\n',
+  )
+})
+
+test('SHORTCODE_TAG_PATTERN - matches opening and closing tags only', () => {
+  const body = '{{< callout type="tip" >}}\nHold on\n{{< /callout >}} and {{data.studio.phone}}'
+  expect(body.match(SHORTCODE_TAG_PATTERN)).toEqual(['{{< callout type="tip" >}}', '{{< /callout >}}'])
+})
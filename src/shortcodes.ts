@@ -0,0 +1,248 @@
+import type { PageMeta, Shortcode } from './config.js'
+import { escapeHtml, findCodeFences, isInside } from './utils.js'
+
+/** A `{{< name args >}}` or `{{< /name >}}` tag; also used to keep tags out of translation */
+export const SHORTCODE_TAG_PATTERN = /\{\{<\s*(\/?)\s*([\w-]+)((?:[^>]|>(?!\}\}))*?)\s*(\/?)>\}\}/g
+
+// `{{</* name */>}}` renders as a literal `{{< name >}}`, e.g. in documentation
+const ESCAPED_TAG = /\{\{<\/\*([\s\S]*?)\*\/>\}\}/g
+const ARGUMENT = /([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|([^\s"']+)))?/y
+const PLACEHOLDER = /@@SHORTCODE_(\d+)@@/g
+// Placeholders markdown-it put in a paragraph, alone or as its first or last line
+const WRAPPED_PLACEHOLDER = /<p>(@@\/?SHORTCODE_\d+@@)<\/p>/g
+const PLACEHOLDER_OPENING_PARAGRAPH = /<p>(@@\/?SHORTCODE_\d+@@)\n/g
+const PLACEHOLDER_CLOSING_PARAGRAPH = /\n(@@\/?SHORTCODE_\d+@@)<\/p>/g
+// What may come before a tag on a line of its own: indentation, `>` and a list marker
+const LINE_PREFIX = /^[ \t>]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+)?$/
+
+interface ShortcodeTag {
+  readonly name: string
+  readonly args: Readonly<Record<string, string>>
+  readonly closing: boolean
+  /** Written as `{{< name />}}`, so never paired */
+  readonly selfClosing: boolean
+  readonly start: number
+  readonly end: number
+  readonly line: number
+  /** The matching closing tag, for paired shortcodes */
+  close?: ShortcodeTag
+}
+
+export interface ShortcodeSource {
+  /** File name used in errors */
+  readonly fileName: string
+  /** Lines before the markdown body, e.g. front matter */
+  readonly lineOffset?: number
+}
+
+export interface ShortcodeCall {
+  readonly name: string
+  readonly args: Readonly<Record<string, string>>
+  readonly shortcode: Shortcode
+  readonly paired: boolean
+  /** `file:line` of the tag, for errors */
+  readonly location: string
+}
+
+export interface ExpandedShortcodes {
+  /** The markdown with every shortcode tag replaced by a placeholder */
+  readonly markdown: string
+  /** The call behind each placeholder, or the HTML of an escaped tag; see `restoreShortcodes` */
+  readonly calls: readonly (ShortcodeCall | string)[]
+}
+
+/**
+ * Swaps the shortcodes in a markdown body for placeholders so markdown-it
+ * leaves them alone. The markdown between paired tags stays in place and
+ * is rendered with the rest of the page, so its headings get ids and TOC
+ * entries like any other. Tags in fenced code blocks are left as written.
+ * Unknown or unbalanced shortcodes throw with the file and line.
+ */
+export function expandShortcodes(
+  markdown: string,
+  shortcodes: Readonly<Record<string, Shortcode>>,
+  source: ShortcodeSource,
+): ExpandedShortcodes {
+  const calls: (ShortcodeCall | string)[] = []
+  const escapeFences = findCodeFences(markdown)
+  const withoutEscapes = markdown.replace(ESCAPED_TAG, (match, inner: string, offset: number) => {
+    if (isInside(escapeFences, offset)) {
+      return match
+    }
+    calls.push(escapeHtml(`{{<${inner}>}}`))
+    return `@@SHORTCODE_${calls.length - 1}@@`
+  })
+
+  const fences = findCodeFences(withoutEscapes)
+  const tags = pairTags(
+    parseTags(withoutEscapes, source).filter((tag) => !isInside(fences, tag.start)),
+    source,
+  )
+  const closedBy = new Map<ShortcodeTag, number>()
+  let result = ''
+  let position = 0
+  for (const tag of tags) {
+    const lineStart = withoutEscapes.lastIndexOf('\n', tag.start - 1) + 1
+    const prefix = withoutEscapes.slice(lineStart, tag.start)
+    const lineEnd = withoutEscapes.indexOf('\n', tag.end)
+    const ownLine = LINE_PREFIX.test(prefix) &&
+      withoutEscapes.slice(tag.end, lineEnd === -1 ? undefined : lineEnd).trim() === ''
+    // Keeps block content apart from the placeholders around it, inside blockquotes too
+    const blankLine = prefix.replace(/[^>]/g, '')
+
+    if (tag.closing) {
+      const placeholder = `@@/SHORTCODE_${closedBy.get(tag)}@@`
+      result += ownLine
+        ? `${withoutEscapes.slice(position, lineStart)}${blankLine}\n${prefix}${placeholder}`
+        : `${withoutEscapes.slice(position, tag.start)}${placeholder}`
+      position = tag.end
+      continue
+    }
+
+    const shortcode = Object.hasOwn(shortcodes, tag.name) ? shortcodes[tag.name] : undefined
+    if (!shortcode) {
+      const available = Object.keys(shortcodes)
+      throw new Error(
+        `${source.fileName}:${tag.line}: unknown shortcode "${tag.name}"${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`,
+      )
+    }
+    calls.push({
+      name: tag.name,
+      args: tag.args,
+      shortcode,
+      paired: tag.close !== undefined,
+      location: `${source.fileName}:${tag.line}`,
+    })
+    if (tag.close) {
+      closedBy.set(tag.close, calls.length - 1)
+    }
+    result += `${withoutEscapes.slice(position, tag.start)}@@SHORTCODE_${calls.length - 1}@@`
+    if (tag.close && ownLine) {
+      result += `\n${blankLine}`
+    }
+    position = tag.end
+  }
+
+  return { markdown: result + withoutEscapes.slice(position), calls }
+}
+
+/**
+ * Runs the shortcodes on the HTML rendered from `expandShortcodes`
+ * markdown. A placeholder on a line of its own replaces the paragraph
+ * markdown-it wrapped it in; a paired shortcode gets the HTML between
+ * its placeholders, nested shortcodes already run.
+ */
+export async function restoreShortcodes(
+  html: string,
+  expanded: ExpandedShortcodes,
+  meta: PageMeta,
+): Promise<string> {
+  let result = html
+    .replace(WRAPPED_PLACEHOLDER, '$1')
+    .replace(PLACEHOLDER_OPENING_PARAGRAPH, '$1\n<p>')
+    .replace(PLACEHOLDER_CLOSING_PARAGRAPH, '</p>\n$1')
+  result = result.replace(PLACEHOLDER, (match, index: string) => {
+    const call = expanded.calls[Number(index)]
+    return typeof call === 'string' ? call : match
+  })
+
+  // A nested shortcode's placeholder comes after its parent's, so going
+  // backwards runs it first
+  for (let index = expanded.calls.length - 1; index >= 0; index--) {
+    const call = expanded.calls[index]
+    const placeholder = `@@SHORTCODE_${index}@@`
+    const start = result.indexOf(placeholder)
+    if (typeof call === 'string' || start === -1) {
+      continue
+    }
+    let end = start + placeholder.length
+    let content: string | undefined
+    if (call.paired) {
+      const closing = `@@/SHORTCODE_${index}@@`
+      const closingStart = result.indexOf(closing, end)
+      if (closingStart === -1) {
+        throw new Error(`${call.location}: the closing tag of shortcode "${call.name}" was lost while rendering`)
+      }
+      content = result.slice(end, closingStart).replace(/^\n/, '')
+      end = closingStart + closing.length
+    }
+    result = result.slice(0, start) + await runShortcode(call, content, meta) + result.slice(end)
+  }
+  return result
+}
+
+async function runShortcode(call: ShortcodeCall, content: string | undefined, meta: PageMeta): Promise<string> {
+  let output: unknown
+  try {
+    output = await call.shortcode(call.args, content, meta)
+  } catch (error) {
+    throw new Error(
+      `${call.location}: shortcode "${call.name}" failed: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+  if (typeof output !== 'string') {
+    throw new Error(`${call.location}: shortcode "${call.name}" must return a string, got ${typeof output}`)
+  }
+  return output
+}
+
+function parseTags(markdown: string, source: ShortcodeSource): ShortcodeTag[] {
+  const lineAt = (index: number): number => markdown.slice(0, index).split('\n').length + (source.lineOffset ?? 0)
+
+  return [...markdown.matchAll(SHORTCODE_TAG_PATTERN)].map((match) => {
+    const [tag, slash, name, rawArgs, selfClosing] = match
+    const start = match.index ?? 0
+    const line = lineAt(start)
+    const args: Record<string, string> = {}
+    let position = 0
+    const text = rawArgs.trim()
+    while (position < text.length) {
+      ARGUMENT.lastIndex = position
+      const argument = ARGUMENT.exec(text)
+      if (!argument) {
+        throw new Error(`${source.fileName}:${line}: invalid shortcode arguments in ${tag}`)
+      }
+      const [whole, key, doubleQuoted, singleQuoted, bare] = argument
+      // A bare key is a flag
+      args[key] = doubleQuoted ?? singleQuoted ?? bare ?? 'true'
+      position += whole.length
+      position += text.slice(position).match(/^\s*/)![0].length
+    }
+    if (slash && Object.keys(args).length > 0) {
+      throw new Error(`${source.fileName}:${line}: closing shortcode ${tag} cannot take arguments`)
+    }
+    return {
+      name,
+      args,
+      closing: slash === '/',
+      selfClosing: selfClosing === '/',
+      start,
+      end: start + tag.length,
+      line,
+    }
+  })
+}
+
+/**
+ * Matches each closing tag with the nearest open tag of the same name.
+ * Open tags left without one are self-closing, so overlapping pairs end
+ * in a closing tag without an opening one.
+ */
+function pairTags(tags: ShortcodeTag[], source: ShortcodeSource): ShortcodeTag[] {
+  const open: ShortcodeTag[] = []
+  for (const tag of tags) {
+    if (!tag.closing) {
+      if (!tag.selfClosing) {
+        open.push(tag)
+      }
+      continue
+    }
+    const openIndex = open.map((candidate) => candidate.name).lastIndexOf(tag.name)
+    if (openIndex === -1) {
+      throw new Error(`${source.fileName}:${tag.line}: {{< /${tag.name} >}} has no opening {{< ${tag.name} >}}`)
+    }
+    const [opener] = open.splice(openIndex)
+    opener.close = tag
+  }
+  return tags
+}
@@ -2,8 +2,7 @@ import { writeFile } from 'node:fs/promises'
 import path from 'node:path'
 import type { RenderPlan, iAlternateLink } from './config.js'
 import { isBooleanEnabled } from './frontmatter.js'
-import { stripHtmlExtension, normalizeIndexUrl } from './utils.js'
-import { toAbsoluteUrl } from './template.js'
+import { toPageUrl } from './utils.js'
 
 const DEFAULT_LANG = 'en'
 
@@ -37,17 +36,13 @@ export function buildAlternateLinks(
   const groupKey = plan.meta.translationOf ?? plan.meta.slug ?? 'page'
   const group = groups.get(groupKey) ?? [plan]
   const links = group.map((entry) => {
-    const normalizedPath = normalizeIndexUrl(stripHtmlExtension(entry.relativeOutput))
     return {
       lang: entry.meta.lang ?? defaultLang,
-      href: toAbsoluteUrl(normalizedPath, baseUrl),
+      href: toPageUrl(entry.relativeOutput, baseUrl),
     }
   })
 
-  const canonicalRelative = normalizeIndexUrl(
-    stripHtmlExtension(resolveCanonicalRelative(plan, groups)),
-  )
-  const xDefaultHref = toAbsoluteUrl(canonicalRelative, baseUrl)
+  const xDefaultHref = toPageUrl(resolveCanonicalRelative(plan, groups), baseUrl)
   return [...sortAlternates(links, defaultLang), { lang: 'x-default', href: xDefaultHref }]
 }
 
@@ -98,8 +93,7 @@ export async function writeSitemap(
             )
             .join('\n')
         : ''
-      const normalizedLoc = normalizeIndexUrl(stripHtmlExtension(plan.relativeOutput))
-      const loc = toAbsoluteUrl(normalizedLoc, baseUrl)
+      const loc = toPageUrl(plan.relativeOutput, baseUrl)
       return [
         '  <url>',
         `    <loc>${loc}</loc>`,
@@ -0,0 +1,145 @@
+import { test, expect } from 'bun:test'
+import type { PageMeta } from './config.js'
+import { buildStructuredData, renderStructuredData, serializeJsonLd } from './structured-data.js'
+
+const META: PageMeta = {
+  title: 'Silks for Beginners',
+  description: 'First steps on aerial silks',
+  sidebarTitle: 'Test',
+  sidebarSummary: 'Test',
+  backLinkHref: '/',
+  backLinkLabel: 'Back',
+  output: 'classes/aerial-silks/beginners.html',
+  lang: 'en',
+}
+
+const OPTIONS = {
+  baseUrl: 'https://example.com',
+  pageUrl: 'https://example.com/classes/aerial-silks/beginners',
+  isHomepage: false,
+  siteName: 'Aerial Studio',
+}
+
+test('buildStructuredData - adds WebSite and Organization on the homepage', () => {
+  const nodes = buildStructuredData(
+    { ...META, title: 'Home', output: 'index.html' },
+    {
+      ...OPTIONS,
+      pageUrl: 'https://example.com/',
+      isHomepage: true,
+      config: { organization: { logo: 'img/logo.png', sameAs: ['https://instagram.com/studio'] } },
+    },
+  )
+
+  expect(nodes).toEqual([
+    {
+      '@context': 'https://schema.org',
+      '@type': 'WebSite',
+      name: 'Aerial Studio',
+      url: 'https://example.com/',
+      description: 'First steps on aerial silks',
+      inLanguage: 'en',
+    },
+    {
+      '@context': 'https://schema.org',
+      '@type': 'Organization',
+      name: 'Aerial Studio',
+      url: 'https://example.com/',
+      logo: 'https://example.com/img/logo.png',
+      sameAs: ['https://instagram.com/studio'],
+    },
+  ])
+})
+
+test('buildStructuredData - builds an Article and breadcrumbs for dated pages with authors', () => {
+  const nodes = buildStructuredData(
+    { ...META, publishDate: new Date('2025-06-01T00:00:00Z'), author: ['Sam', { name: 'Alex', url: 'https://alex.example' }] },
+    // `classes/aerial-silks/` has no page of its own, so it gets no crumb
+    { ...OPTIONS, pageTitles: new Map([['index.html', 'Welcome'], ['classes/index.html', 'All classes']]) },
+  )
+
+  expect(nodes[0]).toMatchObject({
+    '@type': 'Article',
+    headline: 'Silks for Beginners',
+    datePublished: '2025-06-01',
+    author: [
+      { '@type': 'Person', name: 'Sam' },
+      { '@type': 'Person', name: 'Alex', url: 'https://alex.example' },
+    ],
+    publisher: { '@type': 'Organization', name: 'Aerial Studio' },
+  })
+  expect(nodes[1]).toEqual({
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: [
+      { '@type': 'ListItem', position: 1, name: 'Aerial Studio', item: 'https://example.com/' },
+      { '@type': 'ListItem', position: 2, name: 'All classes', item: 'https://example.com/classes' },
+      { '@type': 'ListItem', position: 3, name: 'Silks for Beginners', item: OPTIONS.pageUrl },
+    ],
+  })
+})
+
+test('buildStructuredData - honours schemaType and language home pages', () => {
+  const nodes = buildStructuredData(
+    { ...META, lang: 'fr', output: 'fr/contact.html', schemaType: 'ContactPage' },
+    { ...OPTIONS, pageUrl: 'https://example.com/fr/contact', config: { breadcrumbs: true } },
+  )
+
+  expect(nodes[0]).toMatchObject({ '@type': 'ContactPage', name: 'Silks for Beginners', inLanguage: 'fr' })
+  expect(nodes[1]).toMatchObject({
+    itemListElement: [
+      { name: 'Aerial Studio', item: 'https://example.com/fr' },
+      { name: 'Silks for Beginners', item: 'https://example.com/fr/contact' },
+    ],
+  })
+
+  // Without a site name, the home crumb uses the language's home page title
+  const untitled = { ...OPTIONS, siteName: undefined, pageUrl: 'https://example.com/fr/contact' }
+  const frenchPage = { ...META, lang: 'fr', output: 'fr/contact.html' }
+  expect(buildStructuredData(frenchPage, { ...untitled, pageTitles: new Map([['fr/index.html', 'Accueil']]) })).toEqual([
+    {
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Accueil', item: 'https://example.com/fr' },
+        { '@type': 'ListItem', position: 2, name: 'Silks for Beginners', item: 'https://example.com/fr/contact' },
+      ],
+    },
+  ])
+  expect(buildStructuredData(frenchPage, untitled)).toEqual([])
+  expect(buildStructuredData({ ...META, schemaType: 'none' }, OPTIONS)).toEqual([])
+  expect(buildStructuredData(META, { ...OPTIONS, config: { breadcrumbs: false } })).toEqual([])
+})
+
+test('buildStructuredData - points breadcrumbs for a nested index page at directory URLs', () => {
+  const nodes = buildStructuredData(
+    { ...META, title: 'Aerial silks', output: 'classes/aerial-silks/index.html' },
+    {
+      ...OPTIONS,
+      pageUrl: 'https://example.com/classes/aerial-silks',
+      pageTitles: new Map([['classes/index.html', 'All classes']]),
+    },
+  )
+
+  expect(nodes).toEqual([
+    {
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Aerial Studio', item: 'https://example.com/' },
+        { '@type': 'ListItem', position: 2, name: 'All classes', item: 'https://example.com/classes' },
+        { '@type': 'ListItem', position: 3, name: 'Aerial silks', item: 'https://example.com/classes/aerial-silks' },
+      ],
+    },
+  ])
+})
+
+test('serializeJsonLd - escapes characters that could end the script element', () => {
+  const serialized = serializeJsonLd({ name: '</script><script>alert("x")</script> & \u2028' })
+
+  expect(serialized).not.toContain('<')
+  expect(serialized).not.toContain('>')
+  expect(serialized).toBe('{"name":"\\u003c/script\\u003e\\u003cscript\\u003ealert(\\"x\\")\\u003c/script\\u003e \\u0026 \\u2028"}')
+  expect(JSON.parse(serialized)).toEqual({ name: '</script><script>alert("x")</script> & \u2028' })
+  expect(renderStructuredData([{ a: 1 }])).toBe('    <script type="application/ld+json">{"a":1}</script>')
+})
@@ -0,0 +1,205 @@
+import type { FrontMatterValue, PageMeta, StructuredDataConfig } from './config.js'
+import { toAbsoluteUrl, toPageUrl } from './utils.js'
+import { formatTimestamp } from './yaml.js'
+
+type JsonLdNode = { readonly [key: string]: unknown }
+
+const SCHEMA_CONTEXT = 'https://schema.org'
+const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle', 'TechArticle']
+const DISABLED_SCHEMA_TYPE = 'none'
+
+export interface StructuredDataOptions {
+  readonly baseUrl: string
+  readonly pageUrl: string
+  readonly isHomepage: boolean
+  /** Used for `WebSite`, the home breadcrumb and as the organization name fallback */
+  readonly siteName?: string
+  /** Title of each page by output path; breadcrumbs skip directories without a page */
+  readonly pageTitles?: ReadonlyMap<string, string>
+  readonly config?: StructuredDataConfig
+}
+
+/**
+ * Builds the JSON-LD nodes for a page: `WebSite` and `Organization` on the
+ * homepage, an `Article` for pages with a `publishDate` and `author` (or
+ * whatever `schemaType` names), and a `BreadcrumbList` from the output path.
+ * `schemaType: none` turns structured data off for the page.
+ */
+export function buildStructuredData(meta: PageMeta, options: StructuredDataOptions): JsonLdNode[] {
+  if (meta.schemaType === DISABLED_SCHEMA_TYPE) {
+    return []
+  }
+
+  const nodes: JsonLdNode[] = []
+  const organization = buildOrganization(options)
+
+  if (options.isHomepage) {
+    nodes.push({
+      '@context': SCHEMA_CONTEXT,
+      '@type': 'WebSite',
+      name: options.siteName ?? meta.title,
+      url: toAbsoluteUrl('/', options.baseUrl),
+      ...(meta.description && { description: meta.description }),
+      ...(meta.lang && { inLanguage: meta.lang }),
+    })
+    if (organization) {
+      nodes.push({ '@context': SCHEMA_CONTEXT, ...organization })
+    }
+  }
+
+  const pageNode = buildPageNode(meta, options, organization)
+  if (pageNode) {
+    nodes.push(pageNode)
+  }
+
+  if (options.config?.breadcrumbs !== false && !options.isHomepage) {
+    const breadcrumbs = buildBreadcrumbList(meta, options)
+    if (breadcrumbs) {
+      nodes.push(breadcrumbs)
+    }
+  }
+
+  return nodes
+}
+
+/**
+ * Serialises a node for a `<script>` element. `<`, `>`, `&` and line
+ * separators are escaped so values cannot close the element or break
+ * out of the script.
+ */
+export function serializeJsonLd(node: JsonLdNode): string {
+  return JSON.stringify(node)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+export function renderStructuredData(nodes: readonly JsonLdNode[]): string {
+  return nodes
+    .map((node) => `    <script type="application/ld+json">${serializeJsonLd(node)}</script>`)
+    .join('\n')
+}
+
+function buildOrganization(options: StructuredDataOptions): JsonLdNode | undefined {
+  const configured = options.config?.organization
+  const name = configured?.name ?? options.siteName
+  if (!name) {
+    return undefined
+  }
+  return {
+    '@type': 'Organization',
+    name,
+    url: toAbsoluteUrl(configured?.url ?? '/', options.baseUrl),
+    ...(configured?.logo && { logo: toAbsoluteUrl(configured.logo, options.baseUrl) }),
+    ...(configured?.sameAs && configured.sameAs.length > 0 && { sameAs: configured.sameAs }),
+  }
+}
+
+function buildPageNode(
+  meta: PageMeta,
+  options: StructuredDataOptions,
+  organization: JsonLdNode | undefined,
+): JsonLdNode | undefined {
+  const authors = toAuthors(meta.author)
+  const type = meta.schemaType ?? (meta.publishDate && authors.length > 0 ? 'Article' : undefined)
+  if (!type) {
+    return undefined
+  }
+
+  const image = meta.ogImage ? toAbsoluteUrl(meta.ogImage, options.baseUrl) : undefined
+  if (!ARTICLE_TYPES.includes(type)) {
+    return {
+      '@context': SCHEMA_CONTEXT,
+      '@type': type,
+      name: meta.title,
+      url: options.pageUrl,
+      ...(meta.description && { description: meta.description }),
+      ...(image && { image }),
+      ...(meta.lang && { inLanguage: meta.lang }),
+    }
+  }
+
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': type,
+    headline: meta.title,
+    mainEntityOfPage: options.pageUrl,
+    ...(meta.description && { description: meta.description }),
+    ...(image && { image }),
+    ...(meta.publishDate && { datePublished: formatDate(meta.publishDate) }),
+    ...(meta.modifiedDate && { dateModified: formatDate(meta.modifiedDate) }),
+    ...(authors.length > 0 && { author: authors }),
+    ...(organization && { publisher: organization }),
+    ...(meta.lang && { inLanguage: meta.lang }),
+  }
+}
+
+function buildBreadcrumbList(meta: PageMeta, options: StructuredDataOptions): JsonLdNode | undefined {
+  const segments = meta.output.replace(/\.html$/, '').split('/')
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop()
+  }
+  // A leading language directory belongs to that language's home page
+  const langPrefix = segments.length > 0 && segments[0] === meta.lang ? segments.shift() : undefined
+  if (segments.length === 0) {
+    return undefined
+  }
+
+  // Crumbs point at the URLs canonical links use, so `classes/index.html` is `/classes`
+  const crumbs: Array<{ readonly name: string; readonly output: string }> = []
+  const homeOutput = langPrefix ? `${langPrefix}/index.html` : 'index.html'
+  const homeTitle = options.siteName ?? options.pageTitles?.get(homeOutput)
+  if (homeTitle) {
+    crumbs.push({ name: homeTitle, output: homeOutput })
+  }
+  segments.slice(0, -1).forEach((_segment, index) => {
+    const output = `${[langPrefix, ...segments.slice(0, index + 1)].filter(Boolean).join('/')}/index.html`
+    const title = options.pageTitles?.get(output)
+    if (title) {
+      crumbs.push({ name: title, output })
+    }
+  })
+  if (crumbs.length === 0) {
+    return undefined
+  }
+
+  return {
+    '@context': SCHEMA_CONTEXT,
+    '@type': 'BreadcrumbList',
+    itemListElement: [...crumbs, { name: meta.title, output: meta.output }].map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      item: toPageUrl(crumb.output, options.baseUrl),
+    })),
+  }
+}
+
+function toAuthors(value: FrontMatterValue | undefined): JsonLdNode[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  const list: readonly FrontMatterValue[] = Array.isArray(value) ? value : [value]
+  return list.flatMap((author: FrontMatterValue) => {
+    if (typeof author === 'string' && author.trim()) {
+      return [{ '@type': 'Person', name: author.trim() }]
+    }
+    if (typeof author === 'object' && author !== null && !Array.isArray(author) && !(author instanceof Date)) {
+      const { name, url, type } = author as { readonly [key: string]: FrontMatterValue }
+      if (typeof name === 'string') {
+        return [{
+          '@type': typeof type === 'string' ? type : 'Person',
+          name,
+          ...(typeof url === 'string' && { url }),
+        }]
+      }
+    }
+    return []
+  })
+}
+
+function formatDate(value: Date | string): string {
+  return value instanceof Date ? formatTimestamp(value) : value
+}
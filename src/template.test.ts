@@ -1,7 +1,17 @@
 import { test, expect, beforeEach, afterEach } from 'bun:test'
 import { mkdir, writeFile, rm } from 'node:fs/promises'
 import path from 'node:path'
-import { escapeHtml, toAbsoluteUrl, cleanUrl, renderTemplate } from './template.js'
+import {
+  escapeHtml,
+  toAbsoluteUrl,
+  cleanUrl,
+  expandPartials,
+  loadLayoutTemplate,
+  renderTemplate,
+  renderTemplateLogic,
+  replaceMetaPlaceholders,
+  toOgLocale,
+} from './template.js'
 import type { PageMeta } from './config.js'
 
 test('escapeHtml - escapes special characters', () => {
@@ -65,8 +75,10 @@ test('renderTemplate - generates meta tags with ogImage', async () => {
   const result = await renderTemplate(
     '<p>Body content</p>',
     meta,
-    templatePath,
-    'https://example.com',
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+    },
   )
 
   expect(result).toContain('<meta property="og:url" content="https://example.com/test" />')
@@ -105,8 +117,10 @@ test('renderTemplate - uses twitterImage when provided', async () => {
   const result = await renderTemplate(
     '<p>Body content</p>',
     meta,
-    templatePath,
-    'https://example.com',
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+    },
   )
 
   expect(result).toContain('<meta property="og:image" content="https://example.com/img/test-og.png" />')
@@ -140,8 +154,10 @@ test('renderTemplate - omits twitterImage when not explicitly set', async () =>
   const result = await renderTemplate(
     '<p>Body content</p>',
     meta,
-    templatePath,
-    'https://example.com',
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+    },
   )
 
   expect(result).toContain('<meta property="og:image" content="https://example.com/img/test-og.png" />')
@@ -174,8 +190,10 @@ test('renderTemplate - omits ogImage and twitterImage tags when not provided', a
   const result = await renderTemplate(
     '<p>Body content</p>',
     meta,
-    templatePath,
-    'https://example.com',
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+    },
   )
 
   expect(result).toContain('<meta property="og:url" content="https://example.com/test" />')
@@ -186,3 +204,521 @@ test('renderTemplate - omits ogImage and twitterImage tags when not provided', a
   // Note: console.warn will be called, but we don't mock it in bun tests
 })
 
+
+test('renderTemplate - replaces meta placeholders with escaped and raw values', async () => {
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'meta-template.html')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head>
+  <title>{{TITLE}}</title>
+</head>
+<body>
+  <img src="{{meta.heroImage}}" alt="{{ meta.seo.alt }}" />
+  <a class="cta">{{{meta.ctaLabel}}}</a>
+  <span>{{meta.ctaLabel}}</span>
+  <ul>{{meta.tags}}</ul>
+  <em>{{meta.missing}}</em>
+  {{BODY}}
+</body>
+</html>`,
+  )
+
+  const meta: PageMeta = {
+    title: 'Test Page',
+    description: 'Test Description',
+    sidebarTitle: 'Test',
+    sidebarSummary: 'Test',
+    backLinkHref: '/',
+    backLinkLabel: 'Back',
+    output: 'test.html',
+    ogImage: 'img/test-og.png',
+    heroImage: 'img/hero.png',
+    ctaLabel: '<b>Book</b>',
+    seo: { alt: 'A "hero"' },
+    tags: ['aerial', 'yoga'],
+  }
+
+  const result = await renderTemplate('<p>Body</p>', meta, { templatePath, baseUrl: 'https://example.com' })
+
+  expect(result).toContain('<img src="img/hero.png" alt="A &quot;hero&quot;" />')
+  expect(result).toContain('<a class="cta"><b>Book</b></a>')
+  expect(result).toContain('<span>&lt;b&gt;Book&lt;/b&gt;</span>')
+  expect(result).toContain('<ul>aerial, yoga</ul>')
+  expect(result).toContain('<em></em>')
+})
+
+test('renderTemplate - replaces data placeholders', async () => {
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'data-template.html')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head>
+  <title>{{TITLE}}</title>
+</head>
+<body>
+  <a href="tel:{{data.studio.phone}}">{{ data.studio.name }}</a>
+  <p>{{data.instructors.0.name}}</p>
+  {{BODY}}
+</body>
+</html>`,
+  )
+
+  const meta: PageMeta = {
+    title: 'Test Page',
+    description: 'Test Description',
+    sidebarTitle: 'Test',
+    sidebarSummary: 'Test',
+    backLinkHref: '/',
+    backLinkLabel: 'Back',
+    output: 'test.html',
+    ogImage: 'img/test-og.png',
+  }
+  const data = {
+    studio: { name: 'Studio & Co', phone: '0123 456' },
+    instructors: [{ name: 'Sam' }],
+  }
+
+  const result = await renderTemplate(
+    '<p>Body</p>',
+    meta,
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+      data,
+    },
+  )
+
+  expect(result).toContain('<a href="tel:0123 456">Studio &amp; Co</a>')
+  expect(result).toContain('<p>Sam</p>')
+})
+
+const LOGIC_META: PageMeta = {
+  title: 'Test Page',
+  description: 'Test Description',
+  sidebarTitle: 'Test',
+  sidebarSummary: 'Test',
+  backLinkHref: '/',
+  backLinkLabel: 'Back',
+  output: 'test.html',
+  ogImage: 'img/og.png',
+  tags: ['aerial', '<yoga>'],
+}
+
+test('renderTemplateLogic - renders if/else branches on meta and data', () => {
+  const template = '{{#if meta.ogImage}}<img src="{{meta.ogImage}}">{{else}}no image{{/if}}' +
+    '{{#if data.banner}}banner{{else}}<i>none</i>{{/if}}{{#if meta.tags}}tagged{{/if}}'
+
+  expect(renderTemplateLogic(template, { meta: LOGIC_META, data: {}, alternates: [] })).toBe(
+    '<img src="{{meta.ogImage}}"><i>none</i>tagged',
+  )
+  expect(
+    renderTemplateLogic(template, { meta: { ...LOGIC_META, ogImage: undefined, tags: [] }, data: { banner: 'x' }, alternates: [] }),
+  ).toBe('no imagebanner')
+})
+
+test('template paths only read own properties', () => {
+  expect(replaceMetaPlaceholders('[{{meta.constructor}}][{{meta.title.length}}][{{{meta.toString}}}]', LOGIC_META)).toBe('[][][]')
+  expect(
+    renderTemplateLogic('{{#if meta.constructor}}leak{{else}}safe{{/if}}', { meta: LOGIC_META, data: {}, alternates: [] }),
+  ).toBe('safe')
+})
+
+test('renderTemplateLogic - loops over lists, objects and alternates', () => {
+  const context = {
+    meta: LOGIC_META,
+    data: { prices: { drop_in: 15, term: 120 }, empty: [] },
+    alternates: [
+      { lang: 'en', href: 'https://example.com/', current: true },
+      { lang: 'fr', href: 'https://example.com/fr/', current: false },
+    ],
+  }
+
+  expect(renderTemplateLogic('{{#each meta.tags}}{{@index}}:{{this}}{{#if @last}}.{{else}}, {{/if}}{{/each}}', context)).toBe(
+    '0:aerial, 1:&lt;yoga&gt;.',
+  )
+  expect(renderTemplateLogic('{{#each data.prices}}{{@key}}={{this}};{{/each}}', context)).toBe('drop_in=15;term=120;')
+  expect(
+    renderTemplateLogic(
+      '{{#each alternates}}{{#if this.current}}<b>{{this.lang}}</b>{{else}}<a href="{{this.href}}">{{this.lang}}</a>{{/if}}{{/each}}',
+      context,
+    ),
+  ).toBe('<b>en</b><a href="https://example.com/fr/">fr</a>')
+  expect(renderTemplateLogic('{{#each data.empty}}item{{else}}nothing{{/each}}', context)).toBe('nothing')
+})
+
+test('renderTemplateLogic - reports unbalanced blocks with template path and line', () => {
+  const context = { meta: LOGIC_META, data: {}, alternates: [] }
+  expect(() => renderTemplateLogic('<p>\n{{#if meta.title}}\n', context, 'layout.html')).toThrow(
+    'layout.html:2: {{#if meta.title}} is never closed',
+  )
+  expect(() => renderTemplateLogic('{{#each meta.tags}}{{/if}}', context, 'layout.html')).toThrow(
+    'layout.html:1: unexpected {{/if}} (expected {{/each}})',
+  )
+  expect(() => renderTemplateLogic('{{else}}', context, 'layout.html')).toThrow('layout.html:1: unexpected {{else}}')
+})
+
+test('renderTemplate - expands logic blocks before placeholders and head injection', async () => {
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'logic-template.html')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html lang="{{LANG}}">
+<head>
+  <title>{{TITLE}}</title>
+</head>
+<body>
+  {{#if meta.ogImage}}<div class="hero">{{TITLE}}</div>{{/if}}
+  <nav>{{#each alternates}}<a hreflang="{{this.lang}}">{{this.lang}}</a>{{/each}}</nav>
+  {{BODY}}
+</body>
+</html>`,
+  )
+
+  const result = await renderTemplate(
+    '<p>{{#if meta.ogImage}}kept{{/if}}</p>',
+    LOGIC_META,
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+      alternates: [
+        { lang: 'en', href: 'https://example.com/test' },
+        { lang: 'fr', href: 'https://example.com/fr/test' },
+        { lang: 'x-default', href: 'https://example.com/test' },
+      ],
+    },
+  )
+
+  expect(result).toContain('<div class="hero">Test Page</div>')
+  expect(result).toContain('<nav><a hreflang="en">en</a><a hreflang="fr">fr</a></nav>')
+  expect(result).toContain('<p>{{#if meta.ogImage}}kept{{/if}}</p>')
+  expect(result).toContain('<meta property="og:image"')
+})
+
+test('renderTemplate - expands nested partials with placeholders', async () => {
+  const partialsDir = path.join(TEST_TEMPLATE_DIR, 'partials')
+  await mkdir(path.join(partialsDir, 'nav'), { recursive: true })
+  await writeFile(path.join(partialsDir, 'header.html'), '<header>{{TITLE}} {{> nav/main}}</header>')
+  await writeFile(path.join(partialsDir, 'nav', 'main.html'), '{{#if meta.ogImage}}<nav>{{meta.tags}}</nav>{{/if}}')
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'partials-template.html')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body>{{> header}}{{BODY}}{{>header}}</body>
+</html>`,
+  )
+
+  const result = await renderTemplate(
+    '<p>Body</p>',
+    LOGIC_META,
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+      partialsDir,
+    },
+  )
+
+  expect(result).toContain(
+    '<body><header>Test Page <nav>aerial, &lt;yoga&gt;</nav></header><p>Body</p><header>Test Page <nav>aerial, &lt;yoga&gt;</nav></header></body>',
+  )
+})
+
+test('expandPartials - reports missing and recursive partials', async () => {
+  const partialsDir = path.join(TEST_TEMPLATE_DIR, 'partials')
+  await mkdir(partialsDir, { recursive: true })
+  await writeFile(path.join(partialsDir, 'loop.html'), '{{> loop}}')
+
+  await expect(expandPartials('<p>\n{{> footer}}', partialsDir, 'layout.html')).rejects.toThrow(
+    'layout.html:2: partial "footer" not found',
+  )
+  await expect(expandPartials('{{> loop}}', partialsDir, 'layout.html')).rejects.toThrow(
+    'partial "loop" includes itself (loop -> loop)',
+  )
+  await expect(expandPartials('{{> ../secret}}', partialsDir, 'layout.html')).rejects.toThrow(
+    'layout.html:1: partial "../secret" is outside',
+  )
+})
+
+test('renderTemplate - renders the front matter layout through inherited blocks', async () => {
+  const basePath = path.join(TEST_TEMPLATE_DIR, 'layout-base.html')
+  const postPath = path.join(TEST_TEMPLATE_DIR, 'layout-post.html')
+  const featurePath = path.join(TEST_TEMPLATE_DIR, 'layout-feature.html')
+  await writeFile(
+    basePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{#block title}}{{TITLE}}{{/block}}</title></head>
+<body>{{#block main}}{{BODY}}{{/block}}<footer>{{#block footer}}base footer{{/block}}</footer></body>
+</html>`,
+  )
+  await writeFile(
+    postPath,
+    `{{extends default}}
+ignored outside blocks
+{{#block main}}<article>{{BODY}}</article>{{/block}}
+{{#block footer}}post footer{{/block}}`,
+  )
+  await writeFile(featurePath, '{{extends post}}{{#block title}}Feature: {{TITLE}}{{/block}}')
+  const layouts = { post: postPath, feature: featurePath }
+
+  const result = await renderTemplate(
+    '<p>Body</p>',
+    { ...LOGIC_META, layout: 'feature' },
+    {
+      templatePath: basePath,
+      baseUrl: 'https://example.com',
+      isHomepage: true,
+      homepageTemplatePath: path.join(TEST_TEMPLATE_DIR, 'missing-homepage.html'),
+      layouts,
+    },
+  )
+
+  expect(result).toContain('<title>Feature: Test Page</title>')
+  expect(result).toContain('<body><article><p>Body</p></article><footer>post footer</footer></body>')
+  expect(result).not.toContain('ignored outside blocks')
+  expect(result).not.toContain('{{')
+
+  await expect(
+    renderTemplate(
+      '',
+      { ...LOGIC_META, layout: 'missing' },
+      {
+        templatePath: basePath,
+        baseUrl: 'https://example.com',
+        layouts,
+      },
+    ),
+  ).rejects.toThrow('Unknown layout "missing" for page test.html')
+})
+
+test('loadLayoutTemplate - rejects unknown and circular parents', async () => {
+  const loopPath = path.join(TEST_TEMPLATE_DIR, 'layout-loop.html')
+  const orphanPath = path.join(TEST_TEMPLATE_DIR, 'layout-orphan.html')
+  await writeFile(loopPath, '{{extends loop}}')
+  await writeFile(orphanPath, '\n{{extends nowhere}}')
+
+  await expect(loadLayoutTemplate(loopPath, { loop: loopPath }, 'template.html')).rejects.toThrow(
+    'layout "loop" extends itself',
+  )
+  await expect(loadLayoutTemplate(orphanPath, {}, 'template.html')).rejects.toThrow(
+    'layout-orphan.html:2: unknown layout "nowhere" in {{extends}}',
+  )
+})
+
+test('renderTemplate - renders the configured language switcher and exposes languages', async () => {
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'switcher-template.html')
+  await writeFile(
+    templatePath,
+    `<!DOCTYPE html>
+<html>
+<head><title>{{TITLE}}</title></head>
+<body>{{LANGUAGE_SWITCHER}}<p>{{#each languages}}{{this.label}}{{#if this.fallback}}*{{/if}};{{/each}}</p>{{BODY}}</body>
+</html>`,
+  )
+  const languages = [
+    { lang: 'en', label: 'English', href: '/test', current: true, fallback: false },
+    { lang: 'nl', label: 'Nederlands', href: '/nl/', current: false, fallback: true },
+  ]
+
+  const result = await renderTemplate(
+    '',
+    { ...LOGIC_META, lang: 'en' },
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+      alternates: [{ lang: 'en', href: 'https://example.com/test' }],
+      languages,
+      languageSwitcher: { variant: 'list' },
+    },
+  )
+
+  expect(result).toContain('<li><a href="/nl/" hreflang="nl" lang="nl">Nederlands</a></li>')
+  expect(result).toContain('<p>English;Nederlands*;</p>')
+})
+
+test('toOgLocale - derives regions and honours configured locales', () => {
+  expect(toOgLocale('fr')).toBe('fr_FR')
+  expect(toOgLocale('pt-BR')).toBe('pt_BR')
+  expect(toOgLocale('en', { en: 'en_GB' })).toBe('en_GB')
+})
+
+test('renderTemplate - emits configurable Open Graph and Twitter tags', async () => {
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'head-tags-template.html')
+  await writeFile(templatePath, '<!DOCTYPE html>\n<html>\n<head><title>{{TITLE}}</title></head>\n<body>{{BODY}}</body>\n</html>')
+
+  const result = await renderTemplate(
+    '',
+    {
+      ...LOGIC_META,
+      lang: 'fr',
+      ogType: 'article',
+      ogImageAlt: 'Aerial "silks"',
+      twitterCard: 'summary',
+      publishDate: new Date('2025-06-01T00:00:00Z'),
+      modifiedDate: new Date('2025-06-02T10:30:00Z'),
+    },
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+      alternates: [
+        { lang: 'en', href: 'https://example.com/test' },
+        { lang: 'fr', href: 'https://example.com/fr/test' },
+        { lang: 'x-default', href: 'https://example.com/test' },
+      ],
+      headTags: { siteName: 'Studio', twitterSite: '@studio', locales: { en: 'en_GB' } },
+    },
+  )
+
+  expect(result).toContain('<meta property="og:type" content="article" />')
+  expect(result).toContain('<meta property="og:site_name" content="Studio" />')
+  expect(result).toContain('<meta property="og:locale" content="fr_FR" />')
+  expect(result).toContain('<meta property="og:locale:alternate" content="en_GB" />')
+  expect(result).toContain('<meta property="og:image:alt" content="Aerial &quot;silks&quot;" />')
+  expect(result).toContain('<meta property="article:published_time" content="2025-06-01" />')
+  expect(result).toContain('<meta property="article:modified_time" content="2025-06-02T10:30:00.000Z" />')
+  expect(result).toContain('<meta name="twitter:card" content="summary" />')
+  expect(result).toContain('<meta name="twitter:site" content="@studio" />')
+
+  const plain = await renderTemplate('', LOGIC_META, {
+    templatePath,
+    baseUrl: 'https://example.com',
+    pageTitles: new Map([['index.html', 'Home']]),
+  })
+  expect(plain).toContain('<meta property="og:type" content="website" />')
+  expect(plain).toContain('<meta property="og:locale" content="en_US" />')
+  expect(plain).toContain('<meta name="twitter:card" content="summary_large_image" />')
+  expect(plain).not.toContain('og:site_name')
+  expect(plain).not.toContain('article:published_time')
+  expect(plain).toContain('<script type="application/ld+json">{"@context":"https://schema.org","@type":"BreadcrumbList"')
+})
+
+test('renderTemplate - inserts generated fragments after the placeholder passes', async () => {
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'fragments.html')
+  await writeFile(
+    templatePath,
+    '<html><head><title>{{TITLE}}</title></head><body><h1>{{meta.description}} {{t:cta}}</h1>{{TOC}}{{NAV}}{{BODY}}</body></html>',
+  )
+
+  const result = await renderTemplate(
+    '<p>Costs $& more</p>',
+    { ...LOGIC_META, title: 'About {{meta.description}}' },
+    {
+      templatePath,
+      baseUrl: 'https://example.com',
+      data: { phone: '0123' },
+      strings: { cta: 'Book' },
+      fragments: {
+        toc: '<a href="#data">Using {{data.phone}} and {{t:cta}}</a>',
+        nav: '<a href="/toc">The {{TOC}} marker</a>',
+      },
+    },
+  )
+
+  expect(result).toContain('<title>About {{meta.description}}</title>')
+  expect(result).toContain(
+    '<h1>Test Description Book</h1><a href="#data">Using {{data.phone}} and {{t:cta}}</a>' +
+      '<a href="/toc">The {{TOC}} marker</a><p>Costs $& more</p>',
+  )
+})
+
+test('renderTemplate - strictTemplates reports leftovers and duplicate head tags with lines', async () => {
+  const templatePath = path.join(TEST_TEMPLATE_DIR, 'strict-template.html')
+  await writeFile(
+    templatePath,
+    `<html>
+<head><title>{{TITLE}}</title></head>
+<body>
+  <h2>{{SIDBAR_TITLE}}</h2>
+  {{BODY}}
+</body>
+</html>`,
+  )
+  const render = (strict: boolean) =>
+    renderTemplate(
+      '<code>{{TITLE}}</code>',
+      LOGIC_META,
+      {
+        templatePath,
+        baseUrl: 'https://example.com',
+        alternates: [],
+        fragments: {},
+        strictTemplates: strict,
+      },
+    )
+
+  expect(await render(false)).toContain('<h2>{{SIDBAR_TITLE}}</h2>')
+  await expect(render(true)).rejects.toThrow(/strict-template\.html:4: unresolved placeholder \{\{SIDBAR_TITLE\}\}/)
+
+  const validPath = path.join(TEST_TEMPLATE_DIR, 'strict-valid.html')
+  await writeFile(validPath, '<html><head><title>{{TITLE}}</title></head><body>{{BODY}}</body></html>')
+  const valid = await renderTemplate(
+    '<code>{{TITLE}}</code>',
+    LOGIC_META,
+    {
+      templatePath: validPath,
+      baseUrl: 'https://example.com',
+      alternates: [],
+      fragments: {},
+      strictTemplates: true,
+    },
+  )
+  expect(valid).toContain('<code>{{TITLE}}</code>')
+
+  // Values are never checked, only the template
+  const valuesPath = path.join(TEST_TEMPLATE_DIR, 'strict-values.html')
+  await writeFile(
+    valuesPath,
+    '<html><head><title>{{TITLE}}</title></head><body><p>{{meta.description}}</p><p>{{data.note}}</p><p>{{t:cta}}</p>{{BODY}}</body></html>',
+  )
+  const renderValues = (strings: Record<string, string>) =>
+    renderTemplate(
+      '',
+      { ...LOGIC_META, title: 'Use {{TITLE}}', description: 'Shows {{ braces }}' },
+      {
+        templatePath: valuesPath,
+        baseUrl: 'https://example.com',
+        data: { note: '{{data.raw}}' },
+        strictTemplates: true,
+        strings,
+      },
+    )
+  const withValues = await renderValues({ cta: 'Book {{now}}' })
+  expect(withValues).toContain('<p>Shows {{ braces }}</p><p>{{data.raw}}</p><p>Book {{now}}</p>')
+  await expect(renderValues({})).rejects.toThrow(/strict-values\.html:1: unresolved placeholder \{\{t:cta\}\}/)
+
+  const duplicatePath = path.join(TEST_TEMPLATE_DIR, 'strict-duplicate.html')
+  await writeFile(duplicatePath, '<html><head><title>{{TITLE}}</title></head>\n<body>\n</head>{{BODY}}</body></html>')
+  await expect(
+    renderTemplate(
+      '',
+      LOGIC_META,
+      {
+        templatePath: duplicatePath,
+        baseUrl: 'https://example.com',
+        alternates: [],
+        fragments: {},
+        strictTemplates: true,
+      },
+    ),
+  ).rejects.toThrow(/strict-duplicate\.html:3: duplicate <\/head> tag/)
+
+  const missingPath = path.join(TEST_TEMPLATE_DIR, 'strict-missing.html')
+  await writeFile(missingPath, '<html><head></head><body>{{BODY}}</body></html>')
+  await expect(
+    renderTemplate(
+      '',
+      LOGIC_META,
+      {
+        templatePath: missingPath,
+        baseUrl: 'https://example.com',
+        alternates: [],
+        fragments: {},
+        strictTemplates: true,
+      },
+    ),
+  ).rejects.toThrow('missing required placeholders: {{TITLE}}')
+})
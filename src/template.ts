@@ -1,16 +1,39 @@
 import { readFile } from 'node:fs/promises'
 import path from 'node:path'
-import type { PageMeta, iAlternateLink } from './config.js'
-import { normalizeIndexUrl, stripHtmlExtension, logWarning, logError } from './utils.js'
+import type {
+  DataContext,
+  FrontMatterValue,
+  HeadTagsConfig,
+  StructuredDataConfig,
+  TemplateFragments,
+  LanguageSwitcherConfig,
+  LanguageSwitcherItem,
+  PageMeta,
+  iAlternateLink,
+} from './config.js'
+import { escapeHtml, toAbsoluteUrl, toPageUrl, logWarning, logError } from './utils.js'
+import { buildLanguageSwitcherItems, renderLanguageSwitcher } from './language-switcher.js'
+import { buildStructuredData, renderStructuredData } from './structured-data.js'
+import { replaceStringPlaceholders, type StringDictionary } from './i18n.js'
+import { formatTimestamp } from './yaml.js'
 
 const DEFAULT_LANG = 'en'
 
+export { escapeHtml, toAbsoluteUrl }
+
+/** A value reachable from a template path; front matter keys may be unset */
+type TemplateValue = FrontMatterValue | undefined | TemplateValues | readonly TemplateValue[]
+type TemplateValues = { readonly [key: string]: TemplateValue }
+
 let templateCache: Map<string, string> = new Map()
 let homepageTemplateCache: Map<string, string> = new Map()
+// `lang:key` pairs already warned about, so each missing string is reported once
+const missingStringWarnings = new Set<string>()
 
 export function clearTemplateCache(): void {
   templateCache.clear()
   homepageTemplateCache.clear()
+  missingStringWarnings.clear()
 }
 
 export async function loadTemplate(templatePath: string): Promise<string> {
@@ -41,21 +64,6 @@ export async function loadHomepageTemplate(
   return content
 }
 
-export function escapeHtml(text: string | undefined): string {
-  if (!text) return ''
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;')
-}
-
-export function toAbsoluteUrl(relativePath: string, baseUrl: string): string {
-  const normalized = `/${relativePath.replace(/^\/+/, '')}`
-  return new URL(normalized, baseUrl).toString()
-}
-
 export function cleanUrl(relativePath: string, baseUrl: string): string {
   let cleaned = relativePath.replace(/\.html$/, '')
   if (cleaned === 'index') {
@@ -65,25 +73,230 @@ export function cleanUrl(relativePath: string, baseUrl: string): string {
   return new URL(normalized, baseUrl).toString()
 }
 
+const EXTENDS_TAG = /^\s*\{\{\s*extends\s+([\w-]+)\s*\}\}/
+const NAMED_BLOCK = /\{\{#block\s+([\w-]+)\s*\}\}([\s\S]*?)\{\{\/block\}\}/g
+const DEFAULT_LAYOUT = 'default'
+
+/**
+ * Returns the template for a layout name. `default` is `templatePath`
+ * unless `layouts` overrides it.
+ */
+export function resolveLayoutPath(
+  name: string,
+  layouts: Readonly<Record<string, string>> | undefined,
+  templatePath: string,
+): string | undefined {
+  return layouts?.[name] ?? (name === DEFAULT_LAYOUT ? templatePath : undefined)
+}
+
+/**
+ * Loads a template and applies `{{extends name}}`: the parent layout is
+ * used with each `{{#block name}}...{{/block}}` replaced by the child's
+ * block of the same name. Anything outside blocks in a child is ignored.
+ * Block tags are kept so grandchildren can override them too.
+ */
+export async function loadLayoutTemplate(
+  layoutPath: string,
+  layouts: Readonly<Record<string, string>> | undefined,
+  templatePath: string,
+  chain: readonly string[] = [],
+): Promise<string> {
+  const source = await loadTemplate(layoutPath)
+  const extendsMatch = source.match(EXTENDS_TAG)
+  if (!extendsMatch) {
+    return source
+  }
+
+  const location = `${path.relative(process.cwd(), path.resolve(layoutPath))}:${source.slice(0, extendsMatch[0].length).split('\n').length}`
+  const parentName = extendsMatch[1]
+  const parentPath = resolveLayoutPath(parentName, layouts, templatePath)
+  if (!parentPath) {
+    throw new Error(`${location}: unknown layout "${parentName}" in {{extends}}`)
+  }
+  const resolvedParent = path.resolve(parentPath)
+  if (resolvedParent === path.resolve(layoutPath) || chain.includes(resolvedParent)) {
+    throw new Error(`${location}: layout "${parentName}" extends itself`)
+  }
+
+  const overrides = new Map<string, string>()
+  for (const [, name, content] of source.matchAll(NAMED_BLOCK)) {
+    overrides.set(name, content)
+  }
+  const parent = await loadLayoutTemplate(parentPath, layouts, templatePath, [...chain, path.resolve(layoutPath)])
+  return parent.replace(NAMED_BLOCK, (match, name: string) => {
+    const override = overrides.get(name)
+    return override === undefined ? match : `{{#block ${name}}}${override}{{/block}}`
+  })
+}
+
+function unwrapNamedBlocks(template: string, templatePath: string): string {
+  const unwrapped = template.replace(NAMED_BLOCK, (_match, _name: string, content: string) => content)
+  const stray = unwrapped.match(/\{\{(#block\b[^}]*|\/block)\}\}/)
+  if (stray) {
+    const line = unwrapped.slice(0, stray.index).split('\n').length
+    throw new Error(`${templatePath}:${line}: unbalanced ${stray[0]} (blocks cannot be nested)`)
+  }
+  return unwrapped
+}
+
+const PARTIAL_TAG = /\{\{>\s*([\w./-]+)\s*\}\}/g
+
+/**
+ * Inlines `{{> name}}` with `<partialsDir>/name.html`, recursively, so
+ * partials can use every placeholder and block a template can. Partials are
+ * read through `loadTemplate` and share its cache.
+ */
+export async function expandPartials(
+  template: string,
+  partialsDir: string,
+  templatePath: string,
+  includeStack: readonly string[] = [],
+): Promise<string> {
+  const matches = [...template.matchAll(PARTIAL_TAG)]
+  if (matches.length === 0) {
+    return template
+  }
+
+  const root = path.resolve(partialsDir)
+  const expanded = await Promise.all(
+    matches.map(async (match) => {
+      const name = match[1]
+      const line = template.slice(0, match.index).split('\n').length
+      const location = `${templatePath}:${line}`
+      const partialPath = path.join(root, `${name}.html`)
+      if (!partialPath.startsWith(`${root}${path.sep}`)) {
+        throw new Error(`${location}: partial "${name}" is outside ${path.relative(process.cwd(), root)}`)
+      }
+      if (includeStack.includes(name)) {
+        throw new Error(`${location}: partial "${name}" includes itself (${[...includeStack, name].join(' -> ')})`)
+      }
+      let partial: string
+      try {
+        partial = await loadTemplate(partialPath)
+      } catch {
+        throw new Error(`${location}: partial "${name}" not found at ${path.relative(process.cwd(), partialPath)}`)
+      }
+      return expandPartials(partial, root, path.relative(process.cwd(), partialPath), [...includeStack, name])
+    }),
+  )
+
+  let index = 0
+  return template.replace(PARTIAL_TAG, () => expanded[index++])
+}
+
 const REQUIRED_PLACEHOLDERS = ['{{TITLE}}', '{{BODY}}']
 
-function validateTemplatePlaceholders(template: string, templatePath: string): void {
+const UNRESOLVED_PLACEHOLDER = /\{\{\{?[^{}]*\}?\}\}/g
+
+function validateTemplatePlaceholders(template: string, templatePath: string, strict: boolean = false): void {
   const missing = REQUIRED_PLACEHOLDERS.filter((placeholder) => !template.includes(placeholder))
-  if (missing.length > 0) {
-    logWarning(
-      `Template ${templatePath} is missing required placeholders: ${missing.join(', ')}`,
-    )
+  if (missing.length === 0) {
+    return
+  }
+  const message = `Template ${templatePath} is missing required placeholders: ${missing.join(', ')}`
+  if (strict) {
+    throw new Error(message)
+  }
+  logWarning(message)
+}
+
+const BUILT_IN_PLACEHOLDERS = [
+  'TITLE',
+  'DESCRIPTION',
+  'LANGUAGE_SWITCHER',
+  'LANG',
+  'BACK_LINK_HREF',
+  'BACK_LINK_LABEL',
+  'SIDEBAR_TITLE',
+  'SIDEBAR_SUMMARY',
+  'YEAR',
+  'TOC',
+  'NAV',
+  'BREADCRUMBS',
+  'PREV_LINK',
+  'NEXT_LINK',
+  'BODY',
+]
+const RESOLVABLE_PLACEHOLDER = /^(?:(?:meta|data)\.[\w.-]+|this(?:\.[\w.-]+)?|@index|@key|@first|@last)$/
+
+/**
+ * Strict mode check on the template after layouts and partials are
+ * applied, but before any values are filled in, so a `{{` in page content,
+ * front matter or data never fails the build. Lines refer to `source`, the
+ * template file itself; problems that come from a partial or parent layout
+ * are reported without one.
+ */
+function assertStrictTemplate(
+  template: string,
+  source: string,
+  templatePath: string,
+  strings: StringDictionary,
+): void {
+  const locate = (text: string, occurrence: number = 0): string => {
+    let index = -1
+    for (let seen = 0; seen <= occurrence; seen++) {
+      index = source.indexOf(text, index + 1)
+      if (index === -1) {
+        return `${templatePath} (from a partial or layout)`
+      }
+    }
+    return `${templatePath}:${source.slice(0, index).split('\n').length}`
+  }
+  const isResolvable = (token: string): boolean => {
+    BLOCK_TAG.lastIndex = 0
+    if (BLOCK_TAG.test(token)) {
+      return true
+    }
+    const inner = token.replace(/^\{\{\{?\s*|\s*\}?\}\}$/g, '')
+    const stringKey = inner.match(/^t:([\w.-]+)$/)?.[1]
+    return stringKey !== undefined
+      ? Object.hasOwn(strings, stringKey)
+      : BUILT_IN_PLACEHOLDERS.includes(inner) || RESOLVABLE_PLACEHOLDER.test(inner)
+  }
+
+  const problems = [...new Set(template.match(UNRESOLVED_PLACEHOLDER) ?? [])]
+    .filter((token) => !isResolvable(token))
+    .map((token) => `${locate(token)}: unresolved placeholder ${token}`)
+  if ((template.match(/<\/head>/gi) ?? []).length > 1) {
+    problems.push(`${locate('</head>', 1)}: duplicate </head> tag`)
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'))
+  }
+}
+
+/**
+ * Converts a page language to an Open Graph locale, e.g. `fr` to `fr_FR`,
+ * using `locales` first and the language's most likely region otherwise.
+ */
+export function toOgLocale(lang: string, locales: Readonly<Record<string, string>> = {}): string {
+  const configured = locales[lang]
+  if (configured) {
+    return configured
+  }
+  try {
+    const { language, region } = new Intl.Locale(lang).maximize()
+    return region ? `${language}_${region}` : language
+  } catch {
+    return lang.replace('-', '_')
   }
 }
 
+function formatDateTime(value: Date | string): string {
+  return value instanceof Date ? formatTimestamp(value) : escapeHtml(value)
+}
+
 function generateHeadTags(
   meta: PageMeta,
   baseUrl: string,
   canonicalUrl: string,
   pageUrl: string,
   alternates?: iAlternateLink[],
+  headTags: HeadTagsConfig = {},
 ): string {
   const tags: string[] = []
+  const lang = meta.lang ?? DEFAULT_LANG
+  const ogType = meta.ogType ?? headTags.ogType ?? 'website'
 
   // Meta description
   tags.push(`    <meta name="description" content="${escapeHtml(meta.description)}" />`)
@@ -92,23 +305,44 @@ function generateHeadTags(
   tags.push(`    <link rel="canonical" href="${canonicalUrl}" />`)
 
   // Open Graph tags
+  tags.push(`    <meta property="og:type" content="${escapeHtml(ogType)}" />`)
   tags.push(`    <meta property="og:url" content="${pageUrl}" />`)
   tags.push(`    <meta property="og:title" content="${escapeHtml(meta.title)}" />`)
   tags.push(`    <meta property="og:description" content="${escapeHtml(meta.description)}" />`)
+  if (headTags.siteName) {
+    tags.push(`    <meta property="og:site_name" content="${escapeHtml(headTags.siteName)}" />`)
+  }
+  tags.push(`    <meta property="og:locale" content="${escapeHtml(toOgLocale(lang, headTags.locales))}" />`)
+  for (const alt of alternates ?? []) {
+    if (alt.lang !== 'x-default' && alt.lang !== lang) {
+      tags.push(`    <meta property="og:locale:alternate" content="${escapeHtml(toOgLocale(alt.lang, headTags.locales))}" />`)
+    }
+  }
 
-  // ogImage handling with warning
+  // Missing images are reported once per build by the builder
   if (meta.ogImage) {
     const ogImageUrl = toAbsoluteUrl(meta.ogImage, baseUrl)
     tags.push(`    <meta property="og:image" content="${ogImageUrl}" />`)
-  } else {
-    logWarning(
-      `Missing ogImage for page "${meta.output}". ` +
-      `Set ogImage in defaultMeta or page front-matter to include Open Graph image tags.`,
-    )
+    if (meta.ogImageAlt) {
+      tags.push(`    <meta property="og:image:alt" content="${escapeHtml(meta.ogImageAlt)}" />`)
+    }
+  }
+
+  if (ogType === 'article') {
+    if (meta.publishDate) {
+      tags.push(`    <meta property="article:published_time" content="${formatDateTime(meta.publishDate)}" />`)
+    }
+    if (meta.modifiedDate) {
+      tags.push(`    <meta property="article:modified_time" content="${formatDateTime(meta.modifiedDate)}" />`)
+    }
   }
 
   // Twitter Card tags
-  tags.push(`    <meta name="twitter:card" content="summary_large_image" />`)
+  const twitterCard = meta.twitterCard ?? headTags.twitterCard ?? 'summary_large_image'
+  tags.push(`    <meta name="twitter:card" content="${escapeHtml(twitterCard)}" />`)
+  if (headTags.twitterSite) {
+    tags.push(`    <meta name="twitter:site" content="${escapeHtml(headTags.twitterSite)}" />`)
+  }
   tags.push(`    <meta name="twitter:title" content="${escapeHtml(meta.title)}" />`)
   tags.push(`    <meta name="twitter:description" content="${escapeHtml(meta.description)}" />`)
 
@@ -138,43 +372,141 @@ function generateHeadTags(
   return tags.join('\n')
 }
 
+export interface RenderTemplateOptions {
+  readonly templatePath: string
+  readonly baseUrl: string
+  readonly isHomepage?: boolean
+  readonly homepageTemplatePath?: string
+  readonly alternates?: iAlternateLink[]
+  /** Output path of the page this one is a translation of, for `<link rel="canonical">` */
+  readonly canonicalRelative?: string
+  /** `content/_data` values for the page's language */
+  readonly data?: DataContext
+  readonly partialsDir?: string
+  readonly layouts?: Readonly<Record<string, string>>
+  /** Language switcher entries; built from `alternates` when unset */
+  readonly languages?: readonly LanguageSwitcherItem[]
+  readonly languageSwitcher?: LanguageSwitcherConfig
+  readonly headTags?: HeadTagsConfig
+  readonly structuredData?: false | StructuredDataConfig
+  /** Title of each page by output path, for breadcrumbs */
+  readonly pageTitles?: ReadonlyMap<string, string>
+  readonly fragments?: TemplateFragments
+  readonly strictTemplates?: boolean
+  /** UI strings for `{{t:key}}` in the page's language */
+  readonly strings?: StringDictionary
+}
+
 export async function renderTemplate(
   body: string,
   meta: PageMeta,
-  templatePath: string,
-  baseUrl: string,
-  isHomepage: boolean = false,
-  homepageTemplatePath?: string,
-  alternates?: iAlternateLink[],
-  canonicalRelative?: string,
+  options: RenderTemplateOptions,
 ): Promise<string> {
-  const template = isHomepage && homepageTemplatePath
-    ? await loadHomepageTemplate(homepageTemplatePath, templatePath)
-    : await loadTemplate(templatePath)
-  
-  validateTemplatePlaceholders(template, templatePath)
+  const {
+    templatePath,
+    baseUrl,
+    isHomepage = false,
+    homepageTemplatePath,
+    alternates,
+    canonicalRelative,
+    data = {},
+    partialsDir,
+    layouts,
+    languages,
+    languageSwitcher,
+    headTags,
+    structuredData,
+    pageTitles,
+    fragments = {},
+    strictTemplates = false,
+    strings = {},
+  } = options
+  // An explicit layout wins; otherwise the homepage keeps its own template
+  const layoutPath = meta.layout ? resolveLayoutPath(meta.layout, layouts, templatePath) : undefined
+  if (meta.layout && !layoutPath) {
+    throw new Error(`Unknown layout "${meta.layout}" for page ${meta.output}`)
+  }
+  const activeTemplatePath = layoutPath
+    ?? (isHomepage && homepageTemplatePath ? homepageTemplatePath : templatePath)
+  const template = await expandPartials(
+    unwrapNamedBlocks(
+      await loadLayoutTemplate(activeTemplatePath, layouts, templatePath),
+      path.relative(process.cwd(), path.resolve(activeTemplatePath)),
+    ),
+    partialsDir ?? path.join(path.dirname(path.resolve(templatePath)), 'partials'),
+    path.relative(process.cwd(), path.resolve(activeTemplatePath)),
+  )
+
+  validateTemplatePlaceholders(template, activeTemplatePath, strictTemplates)
+  if (strictTemplates) {
+    assertStrictTemplate(
+      template,
+      await loadTemplate(activeTemplatePath),
+      path.relative(process.cwd(), path.resolve(activeTemplatePath)),
+      strings,
+    )
+  }
 
   const outputPath = meta.output
-  const canonicalUrl = canonicalRelative
-    ? toAbsoluteUrl(normalizeIndexUrl(stripHtmlExtension(canonicalRelative)), baseUrl)
-    : cleanUrl(outputPath, baseUrl)
-  const pageUrl = cleanUrl(outputPath, baseUrl)
-
-  const languageSwitcher = alternates
-    ? renderLanguageSwitcher(meta.lang ?? DEFAULT_LANG, alternates)
-    : ''
-
-  let rendered = template
-    .replace(/\{\{TITLE\}\}/g, escapeHtml(meta.title))
-    .replace(/\{\{DESCRIPTION\}\}/g, escapeHtml(meta.description))
-    .replace(/\{\{LANGUAGE_SWITCHER\}\}/g, languageSwitcher)
-    .replace(/\{\{LANG\}\}/g, meta.lang ?? DEFAULT_LANG)
-    .replace(/\{\{BACK_LINK_HREF\}\}/g, escapeHtml(meta.backLinkHref))
-    .replace(/\{\{BACK_LINK_LABEL\}\}/g, escapeHtml(meta.backLinkLabel))
-    .replace(/\{\{SIDEBAR_TITLE\}\}/g, escapeHtml(meta.sidebarTitle))
-    .replace(/\{\{SIDEBAR_SUMMARY\}\}/g, escapeHtml(meta.sidebarSummary))
-    .replace(/\{\{YEAR\}\}/g, new Date().getFullYear().toString())
-    .replace(/\{\{BODY\}\}/g, body)
+  const pageUrl = toPageUrl(outputPath, baseUrl)
+  const canonicalUrl = canonicalRelative ? toPageUrl(canonicalRelative, baseUrl) : pageUrl
+
+  const currentLang = meta.lang ?? DEFAULT_LANG
+  const languageItems = languages
+    ?? buildLanguageSwitcherItems(currentLang, alternates ?? [], [], languageSwitcher?.labels)
+  const languageSwitcherHtml = renderLanguageSwitcher(languageItems, currentLang, languageSwitcher)
+
+  const expanded = renderTemplateLogic(
+    template,
+    {
+      meta,
+      data,
+      alternates: (alternates ?? [])
+        .filter((alt) => alt.lang !== 'x-default')
+        .map((alt) => ({
+          lang: alt.lang,
+          href: alt.href,
+          label: languageItems.find((item) => item.lang === alt.lang)?.label ?? alt.lang,
+          current: alt.lang === currentLang,
+        })),
+      languages: languageItems.map((item) => ({ ...item })),
+    },
+    path.relative(process.cwd(), path.resolve(activeTemplatePath)),
+  )
+
+  // Unknown strings render as the key; strict mode has already rejected them
+  let rendered = replaceStringPlaceholders(expanded, strings, (key) => {
+    if (!missingStringWarnings.has(`${currentLang}:${key}`)) {
+      missingStringWarnings.add(`${currentLang}:${key}`)
+      logWarning(`No i18n string "${key}" for ${currentLang}; rendering the key instead`)
+    }
+    return key
+  })
+  rendered = replaceDataPlaceholders(replaceMetaPlaceholders(rendered, meta), data)
+
+  // Values and generated HTML go in last, in one pass, so headings or
+  // titles that mention a placeholder are shown as written
+  const builtIns: Readonly<Record<string, string>> = {
+    TITLE: escapeHtml(meta.title),
+    DESCRIPTION: escapeHtml(meta.description),
+    LANGUAGE_SWITCHER: languageSwitcherHtml,
+    LANG: meta.lang ?? DEFAULT_LANG,
+    BACK_LINK_HREF: escapeHtml(meta.backLinkHref),
+    BACK_LINK_LABEL: escapeHtml(meta.backLinkLabel),
+    SIDEBAR_TITLE: escapeHtml(meta.sidebarTitle),
+    SIDEBAR_SUMMARY: escapeHtml(meta.sidebarSummary),
+    YEAR: new Date().getFullYear().toString(),
+    TOC: fragments.toc ?? '',
+    NAV: fragments.nav ?? '',
+    BREADCRUMBS: fragments.breadcrumbs ?? '',
+    PREV_LINK: fragments.prevLink ?? '',
+    NEXT_LINK: fragments.nextLink ?? '',
+    BODY: body,
+  }
+  rendered = rendered.replace(
+    new RegExp(`\\{\\{(${Object.keys(builtIns).join('|')})\\}\\}`, 'g'),
+    (_match, name: string) => builtIns[name]!,
+  )
 
   // Automatically inject all head tags before </head>
   const headEndMatch = rendered.match(/<\/head>/i)
@@ -183,37 +515,283 @@ export async function renderTemplate(
     throw new Error(`Template ${templatePath} is missing </head> tag`)
   }
 
-  const headTags = generateHeadTags(meta, baseUrl, canonicalUrl, pageUrl, alternates)
+  const structuredDataNodes = structuredData === false
+    ? []
+    : buildStructuredData(meta, {
+      baseUrl,
+      pageUrl,
+      isHomepage,
+      siteName: headTags?.siteName,
+      pageTitles,
+      config: structuredData,
+    })
+  const headTagsHtml = [
+    generateHeadTags(meta, baseUrl, canonicalUrl, pageUrl, alternates, headTags),
+    ...(structuredDataNodes.length > 0 ? [renderStructuredData(structuredDataNodes)] : []),
+  ].join('\n')
   const insertPosition = headEndMatch.index!
   rendered =
     rendered.slice(0, insertPosition) +
-    `${headTags}\n` +
+    `${headTagsHtml}\n` +
     rendered.slice(insertPosition)
 
   return rendered
 }
 
-function renderLanguageSwitcher(
-  currentLang: string,
-  alternates: iAlternateLink[],
+/**
+ * Replaces `{{meta.key}}` (HTML-escaped) and `{{{meta.key}}}` (raw) with
+ * front matter values. Dotted paths reach into nested objects, e.g.
+ * `{{meta.seo.title}}`. Missing values render as an empty string.
+ */
+export function replaceMetaPlaceholders(template: string, meta: PageMeta): string {
+  return replaceNamespacePlaceholders(template, 'meta', meta)
+}
+
+/**
+ * Replaces `{{data.key}}` and `{{{data.key}}}` with values from
+ * `content/_data`, following the same rules as meta placeholders.
+ */
+export function replaceDataPlaceholders(template: string, data: DataContext): string {
+  return replaceNamespacePlaceholders(template, 'data', data)
+}
+
+function replaceNamespacePlaceholders(
+  template: string,
+  namespace: string,
+  values: TemplateValues,
 ): string {
-  const available = alternates.filter((alt) => alt.lang !== 'x-default')
-  if (available.length <= 1) {
-    return ''
+  const raw = new RegExp(`\\{\\{\\{\\s*${namespace}\\.([\\w.-]+)\\s*\\}\\}\\}`, 'g')
+  const escaped = new RegExp(`\\{\\{\\s*${namespace}\\.([\\w.-]+)\\s*\\}\\}`, 'g')
+  return template
+    .replace(raw, (_match, key: string) => formatMetaValue(resolvePath(values, key)))
+    .replace(escaped, (_match, key: string) => escapeHtml(formatMetaValue(resolvePath(values, key))))
+}
+
+// Only own properties, so `{{meta.constructor}}` doesn't reach the prototype
+function resolvePath(values: TemplateValues, key: string): TemplateValue {
+  let value: TemplateValue = values
+  for (const segment of key.split('.')) {
+    if (value === null || typeof value !== 'object' || value instanceof Date || !Object.hasOwn(value, segment)) {
+      return undefined
+    }
+    value = isList(value) ? value[Number(segment)] : value[segment]
+  }
+  return value
+}
+
+// `Array.isArray` doesn't narrow readonly arrays out of a union
+function isList(value: TemplateValue): value is readonly TemplateValue[] {
+  return Array.isArray(value)
+}
+
+/** Values visible to `{{#if}}` and `{{#each}}`, e.g. `meta.ogImage` or `data.studio.hours` */
+export interface TemplateContext {
+  readonly meta: PageMeta
+  readonly data: DataContext
+  readonly alternates: readonly TemplateValues[]
+  /** Language switcher entries, including home page fallbacks */
+  readonly languages?: readonly TemplateValues[]
+}
+
+type TemplateNode =
+  | { readonly kind: 'text'; readonly text: string }
+  | {
+      readonly kind: 'if' | 'each'
+      readonly path: string
+      readonly body: TemplateNode[]
+      readonly otherwise: TemplateNode[]
+    }
+
+interface LoopScope {
+  readonly item: TemplateValue
+  readonly index: number
+  readonly key: string
+  readonly first: boolean
+  readonly last: boolean
+}
+
+const BLOCK_TAG = /\{\{\s*(#if|#each|else|\/if|\/each)(?:\s+([\w.@-]+))?\s*\}\}/g
+const LOOP_PLACEHOLDER = /\{\{(\{?)\s*(this(?:\.[\w.-]+)?|@index|@key|@first|@last)\s*\}?\}\}/g
+
+/**
+ * Expands `{{#if path}}...{{else}}...{{/if}}` and
+ * `{{#each path}}...{{else}}...{{/each}}` blocks. Paths start at `meta`,
+ * `data` or `alternates`; inside a loop `this`, `@index`, `@key`, `@first`
+ * and `@last` refer to the current item. Other placeholders are left for
+ * the regular substitution pass.
+ */
+export function renderTemplateLogic(
+  template: string,
+  context: TemplateContext,
+  templatePath: string = 'template',
+): string {
+  if (!template.includes('{{#') && !template.includes('{{else')) {
+    return template
+  }
+  return renderNodes(parseTemplateNodes(template, templatePath), context, [])
+}
+
+function parseTemplateNodes(template: string, templatePath: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{
+    readonly kind: 'if' | 'each'
+    readonly path: string
+    readonly line: number
+    readonly body: TemplateNode[]
+    readonly otherwise: TemplateNode[]
+    inElse: boolean
+  }> = []
+  const lineAt = (index: number): number => template.slice(0, index).split('\n').length
+  const current = (): TemplateNode[] => {
+    const open = stack[stack.length - 1]
+    if (!open) {
+      return root
+    }
+    return open.inElse ? open.otherwise : open.body
+  }
+
+  let lastIndex = 0
+  for (const match of template.matchAll(BLOCK_TAG)) {
+    const [tag, name, tagPath] = match
+    const index = match.index ?? 0
+    if (index > lastIndex) {
+      current().push({ kind: 'text', text: template.slice(lastIndex, index) })
+    }
+    lastIndex = index + tag.length
+    const location = `${templatePath}:${lineAt(index)}`
+
+    if (name === '#if' || name === '#each') {
+      if (!tagPath) {
+        throw new Error(`${location}: ${tag} needs a value, e.g. {{${name} meta.ogImage}}`)
+      }
+      const block = {
+        kind: name.slice(1) as 'if' | 'each',
+        path: tagPath,
+        line: lineAt(index),
+        body: [],
+        otherwise: [],
+        inElse: false,
+      }
+      current().push(block)
+      stack.push(block)
+    } else if (name === 'else') {
+      const open = stack[stack.length - 1]
+      if (!open || open.inElse) {
+        throw new Error(`${location}: unexpected {{else}}`)
+      }
+      open.inElse = true
+    } else {
+      const open = stack.pop()
+      if (!open || `/${open.kind}` !== name) {
+        throw new Error(`${location}: unexpected ${tag}${open ? ` (expected {{/${open.kind}}})` : ''}`)
+      }
+    }
+  }
+
+  const unclosed = stack[stack.length - 1]
+  if (unclosed) {
+    throw new Error(`${templatePath}:${unclosed.line}: {{#${unclosed.kind} ${unclosed.path}}} is never closed`)
+  }
+  if (lastIndex < template.length) {
+    root.push({ kind: 'text', text: template.slice(lastIndex) })
   }
+  return root
+}
 
-  const pills = available
-    .map((alt) => {
-      const isActive = alt.lang === currentLang
-      const label = alt.lang.toUpperCase()
-      const href = new URL(alt.href).pathname
-      if (isActive) {
-        return `<span class="inline-flex items-center rounded-full bg-brand/10 px-3 py-1 text-xs font-semibold text-brand">${label}</span>`
+function renderNodes(nodes: readonly TemplateNode[], context: TemplateContext, scopes: readonly LoopScope[]): string {
+  return nodes
+    .map((node) => {
+      if (node.kind === 'text') {
+        return replaceLoopPlaceholders(node.text, scopes[scopes.length - 1])
+      }
+      const value = resolveTemplatePath(node.path, context, scopes[scopes.length - 1])
+      if (node.kind === 'if') {
+        return renderNodes(isTruthy(value) ? node.body : node.otherwise, context, scopes)
+      }
+      const entries = toLoopEntries(value)
+      if (entries.length === 0) {
+        return renderNodes(node.otherwise, context, scopes)
       }
-      return `<a href="${href}" class="inline-flex items-center rounded-full border border-brand/30 px-3 py-1 text-xs font-semibold text-brand hover:bg-brand/10">${label}</a>`
+      return entries
+        .map(([key, item], index) =>
+          renderNodes(node.body, context, [
+            ...scopes,
+            { item, index, key, first: index === 0, last: index === entries.length - 1 },
+          ]),
+        )
+        .join('')
     })
-    .join('<span class="text-slate-400">·</span>')
+    .join('')
+}
+
+function replaceLoopPlaceholders(text: string, scope: LoopScope | undefined): string {
+  if (!scope) {
+    return text
+  }
+  return text.replace(LOOP_PLACEHOLDER, (_match, raw: string, key: string) => {
+    const formatted = formatMetaValue(resolveScopeValue(key, scope))
+    return raw ? formatted : escapeHtml(formatted)
+  })
+}
 
-  return `<div class="mb-6 flex flex-wrap items-center gap-2" aria-label="Language selector">${pills}</div>`
+function resolveTemplatePath(
+  key: string,
+  context: TemplateContext,
+  scope: LoopScope | undefined,
+): TemplateValue {
+  if (scope && (key === 'this' || key.startsWith('this.') || key.startsWith('@'))) {
+    return resolveScopeValue(key, scope)
+  }
+  const { meta, data, alternates, languages } = context
+  return resolvePath({ meta, data, alternates, languages }, key)
+}
+
+function resolveScopeValue(key: string, scope: LoopScope): TemplateValue {
+  switch (key) {
+    case '@index':
+      return scope.index
+    case '@key':
+      return scope.key
+    case '@first':
+      return scope.first
+    case '@last':
+      return scope.last
+    case 'this':
+      return scope.item
+    default:
+      return resolvePath({ this: scope.item }, key)
+  }
+}
+
+function toLoopEntries(value: TemplateValue): Array<[string, TemplateValue]> {
+  if (Array.isArray(value)) {
+    return value.map((item: TemplateValue, index: number) => [String(index), item])
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    return Object.entries(value)
+  }
+  return []
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0
+  }
+  return Boolean(value)
 }
 
+function formatMetaValue(value: TemplateValue): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  if (value instanceof Date) {
+    return formatTimestamp(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: TemplateValue) => formatMetaValue(item)).join(', ')
+  }
+  if (typeof value === 'object') {
+    return ''
+  }
+  return String(value)
+}
@@ -0,0 +1,54 @@
+import { test, expect } from 'bun:test'
+import { createMarkdownRenderer } from './markdown.js'
+import { getTocLevels, renderMarkdownWithToc, renderToc } from './toc.js'
+
+const SOURCE = `# Silks
+
+[[toc]]
+
+## Warm up
+### Wrists & shoulders
+## Climbs
+#### Russian climb
+### Foot locks
+## Cool down
+`
+
+test('renderMarkdownWithToc - lists h2 and h3 headings by default', () => {
+  const md = createMarkdownRenderer()
+  const { html, toc } = renderMarkdownWithToc(md, SOURCE)
+
+  expect(toc).toBe(
+    '<nav class="toc" aria-label="Table of contents"><ul>' +
+      '<li><a href="#warm-up">Warm up</a><ul><li><a href="#wrists-shoulders">Wrists &amp; shoulders</a></li></ul></li>' +
+      '<li><a href="#climbs">Climbs</a><ul><li><a href="#foot-locks">Foot locks</a></li></ul></li>' +
+      '<li><a href="#cool-down">Cool down</a></li>' +
+      '</ul></nav>',
+  )
+  expect(html).toContain(`</h1>\n${toc}<h2`)
+  expect(html).not.toContain('[[toc]]')
+})
+
+test('renderMarkdownWithToc - follows configured depth and anchors deeper headings', () => {
+  const config = { minLevel: 2, maxLevel: 4 }
+  const md = createMarkdownRenderer(undefined, getTocLevels(config))
+  const { html, toc } = renderMarkdownWithToc(md, SOURCE, config)
+
+  expect(html).toContain('<h4 id="russian-climb"')
+  expect(toc).toContain(
+    '<li><a href="#climbs">Climbs</a><ul><li><a href="#russian-climb">Russian climb</a></li><li><a href="#foot-locks">Foot locks</a></li></ul></li>',
+  )
+})
+
+test('renderMarkdownWithToc - removes the marker when disabled', () => {
+  const md = createMarkdownRenderer()
+  const { html, toc } = renderMarkdownWithToc(md, SOURCE, {}, false)
+
+  expect(toc).toBe('')
+  expect(html).not.toContain('[[toc]]')
+  expect(html).not.toContain('class="toc"')
+})
+
+test('renderToc - returns an empty string without headings', () => {
+  expect(renderToc([])).toBe('')
+})
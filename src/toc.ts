@@ -0,0 +1,97 @@
+import type MarkdownIt from 'markdown-it'
+import type { TocConfig } from './config.js'
+
+type Token = ReturnType<MarkdownIt['parse']>[number]
+
+export interface TocHeading {
+  readonly level: number
+  readonly id: string
+  /** HTML-escaped heading text */
+  readonly text: string
+}
+
+const DEFAULT_MIN_LEVEL = 2
+const DEFAULT_MAX_LEVEL = 3
+const TOC_MARKER = /<p>\[\[toc\]\]<\/p>\n?/gi
+
+/** Heading levels a table of contents needs ids for */
+export function getTocLevels(config: TocConfig = {}): number[] {
+  const { minLevel, maxLevel } = resolveLevels(config)
+  return Array.from({ length: maxLevel - minLevel + 1 }, (_, index) => minLevel + index)
+}
+
+/**
+ * Renders markdown and its table of contents in one pass. Headings come
+ * from the same tokens as the HTML, so ids always match. A paragraph
+ * containing only `[[toc]]` is replaced with the list, or removed when
+ * `enabled` is false.
+ */
+export function renderMarkdownWithToc(
+  md: MarkdownIt,
+  source: string,
+  config: TocConfig = {},
+  enabled: boolean = true,
+): { readonly html: string; readonly toc: string } {
+  const env = {}
+  const tokens = md.parse(source, env)
+  const html = md.renderer.render(tokens, md.options, env)
+  const toc = enabled ? renderToc(collectHeadings(md, tokens, config)) : ''
+  return { html: html.replace(TOC_MARKER, toc), toc }
+}
+
+export function collectHeadings(md: MarkdownIt, tokens: readonly Token[], config: TocConfig = {}): TocHeading[] {
+  const { minLevel, maxLevel } = resolveLevels(config)
+  return tokens.flatMap((token, index) => {
+    const level = Number(token.tag.slice(1))
+    const id = token.attrGet('id')
+    if (token.type !== 'heading_open' || level < minLevel || level > maxLevel || !id) {
+      return []
+    }
+    const inline = tokens[index + 1]
+    const text = md.renderer
+      .renderInline(inline?.children ?? [], md.options, {})
+      .replace(/<[^>]*>/g, '')
+      .trim()
+    return [{ level, id, text }]
+  })
+}
+
+/**
+ * Renders headings as nested `<ul>` lists inside `<nav class="toc">`.
+ * Deeper headings nest under the previous shallower one, even when a level
+ * is skipped.
+ */
+export function renderToc(headings: readonly TocHeading[]): string {
+  if (headings.length === 0) {
+    return ''
+  }
+
+  let html = ''
+  const open: number[] = []
+  for (const heading of headings) {
+    // Close nested lists the heading doesn't belong to
+    while (open.length > 1 && heading.level <= open[open.length - 2]) {
+      html += '</li></ul>'
+      open.pop()
+    }
+    if (open.length === 0 || heading.level > open[open.length - 1]) {
+      html += '<ul>'
+      open.push(heading.level)
+    } else {
+      html += '</li>'
+    }
+    html += `<li><a href="#${heading.id}">${heading.text}</a>`
+  }
+  html += '</li>' + '</ul></li>'.repeat(open.length - 1) + '</ul>'
+
+  return `<nav class="toc" aria-label="Table of contents">${html}</nav>`
+}
+
+function resolveLevels(config: TocConfig): { readonly minLevel: number; readonly maxLevel: number } {
+  const minLevel = clampLevel(config.minLevel ?? DEFAULT_MIN_LEVEL)
+  return { minLevel, maxLevel: Math.max(minLevel, clampLevel(config.maxLevel ?? DEFAULT_MAX_LEVEL)) }
+}
+
+function clampLevel(level: number): number {
+  return Math.min(6, Math.max(1, Math.floor(level)))
+}
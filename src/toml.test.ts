@@ -0,0 +1,77 @@
+import { test, expect } from 'bun:test'
+import { parseToml, stringifyToml } from './toml.js'
+
+test('parseToml - key/value pairs with typed values', () => {
+  const result = parseToml(`title = "Aerial \\"Silks\\""
+literal = 'C:\\path'
+count = 1_000
+price = 9.5
+draft = false
+date = 2024-03-01
+published = 2024-03-01T10:30:00Z
+time = 07:30:00
+# comment
+tags = [ "a", "b", ] # trailing comment`)
+  expect(result.title).toBe('Aerial "Silks"')
+  expect(result.literal).toBe('C:\\path')
+  expect(result.count).toBe(1000)
+  expect(result.price).toBe(9.5)
+  expect(result.draft).toBe(false)
+  expect(result.date).toEqual(new Date(Date.UTC(2024, 2, 1)))
+  expect(result.published).toEqual(new Date('2024-03-01T10:30:00Z'))
+  expect(result.time).toBe('07:30:00')
+  expect(result.tags).toEqual(['a', 'b'])
+})
+
+test('parseToml - tables, dotted keys and arrays of tables', () => {
+  const result = parseToml(`seo.title = "SEO"
+inline = { a = 1, b.c = [2, 3] }
+
+[params]
+hero = "img/hero.png"
+
+[params.cta]
+label = "Book"
+
+[[authors]]
+name = "Alex"
+
+[[authors]]
+name = "Sam"`)
+  expect(result.seo).toEqual({ title: 'SEO' })
+  expect(result.inline).toEqual({ a: 1, b: { c: [2, 3] } })
+  expect(result.params).toEqual({ hero: 'img/hero.png', cta: { label: 'Book' } })
+  expect(result.authors).toEqual([{ name: 'Alex' }, { name: 'Sam' }])
+})
+
+test('parseToml - multi-line strings', () => {
+  const result = parseToml(`basic = """
+Line one
+Line two"""
+literal = '''
+Raw \\n text'''`)
+  expect(result.basic).toBe('Line one\nLine two')
+  expect(result.literal).toBe('Raw \\n text')
+})
+
+test('parseToml - reports errors with file name and line number', () => {
+  expect(() => parseToml('title = "a"\ntitle = "b"', { fileName: 'page.md', firstLine: 2 })).toThrow(
+    'page.md:3: duplicate key "title"',
+  )
+  expect(() => parseToml('title "a"')).toThrow('line 1: expected "=" after key "title"')
+  expect(() => parseToml('title = nope')).toThrow('line 1: invalid value "nope"')
+  expect(() => parseToml('[a]\n[a]')).toThrow('line 2: table "[a]" is defined more than once')
+})
+
+test('stringifyToml - round-trips through parseToml', () => {
+  const data = {
+    title: 'Quote " and \\ backslash',
+    count: 3,
+    flag: true,
+    date: new Date(Date.UTC(2024, 0, 5)),
+    tags: ['a', 'b'],
+    seo: { title: 'Nested', keywords: ['x'] },
+    authors: [{ name: 'Alex' }, { name: 'Sam' }],
+  }
+  expect(parseToml(stringifyToml(data))).toEqual(data)
+})
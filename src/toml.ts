@@ -0,0 +1,506 @@
+import type { FrontMatterValue } from './config.js'
+import { formatTimestamp, isCalendarDate } from './yaml.js'
+
+type TomlTable = { [key: string]: FrontMatterValue }
+
+interface TomlCursor {
+  readonly text: string
+  readonly fileName?: string
+  readonly firstLine: number
+  pos: number
+}
+
+export interface TomlParseOptions {
+  /** Used to prefix error messages, e.g. `content/about.md:4: ...` */
+  readonly fileName?: string
+  /** Line number of the first line of `source` within the file (default: 1) */
+  readonly firstLine?: number
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]/
+const OFFSET_DATETIME = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[-+]\d{2}:\d{2})$/
+const LOCAL_DATETIME = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parses TOML front matter (as used by Hugo's `+++` blocks): key/value
+ * pairs, dotted keys, tables, arrays of tables, inline tables and arrays.
+ * Local times without a date are kept as strings.
+ */
+export function parseToml(source: string, options: TomlParseOptions = {}): TomlTable {
+  const cursor: TomlCursor = {
+    text: source.replace(/\r\n/g, '\n'),
+    fileName: options.fileName,
+    firstLine: options.firstLine ?? 1,
+    pos: 0,
+  }
+  const root: TomlTable = {}
+  // Tables declared with a [header]; declaring the same one twice is an error
+  const definedTables = new Set<TomlTable>()
+  let current = root
+
+  for (;;) {
+    skipWhitespaceAndComments(cursor, true)
+    if (cursor.pos >= cursor.text.length) {
+      break
+    }
+
+    if (cursor.text[cursor.pos] === '[') {
+      const isArrayTable = cursor.text[cursor.pos + 1] === '['
+      cursor.pos += isArrayTable ? 2 : 1
+      const headerStart = cursor.pos
+      const keys = parseKey(cursor)
+      skipInlineWhitespace(cursor)
+      const closing = isArrayTable ? ']]' : ']'
+      if (!cursor.text.startsWith(closing, cursor.pos)) {
+        throw tomlError(cursor, `expected "${closing}" after table name`)
+      }
+      cursor.pos += closing.length
+      current = isArrayTable
+        ? appendArrayTable(cursor, root, keys, headerStart)
+        : openTable(cursor, root, keys, definedTables, headerStart)
+      expectLineEnd(cursor)
+      continue
+    }
+
+    const keyStart = cursor.pos
+    const keys = parseKey(cursor)
+    skipInlineWhitespace(cursor)
+    if (cursor.text[cursor.pos] !== '=') {
+      throw tomlError(cursor, `expected "=" after key "${keys.join('.')}"`)
+    }
+    cursor.pos += 1
+    skipInlineWhitespace(cursor)
+    const value = parseValue(cursor)
+    assignKey(cursor, current, keys, value, keyStart)
+    expectLineEnd(cursor)
+  }
+
+  return root
+}
+
+function lineAt(cursor: TomlCursor, pos: number): number {
+  let line = cursor.firstLine
+  for (let i = 0; i < pos && i < cursor.text.length; i += 1) {
+    if (cursor.text[i] === '\n') {
+      line += 1
+    }
+  }
+  return line
+}
+
+function tomlError(cursor: TomlCursor, message: string, pos: number = cursor.pos): Error {
+  const line = lineAt(cursor, pos)
+  const location = cursor.fileName ? `${cursor.fileName}:${line}` : `line ${line}`
+  return new Error(`${location}: ${message}`)
+}
+
+function skipInlineWhitespace(cursor: TomlCursor): void {
+  while (cursor.text[cursor.pos] === ' ' || cursor.text[cursor.pos] === '\t') {
+    cursor.pos += 1
+  }
+}
+
+function skipWhitespaceAndComments(cursor: TomlCursor, includeNewlines: boolean): void {
+  for (;;) {
+    skipInlineWhitespace(cursor)
+    const char = cursor.text[cursor.pos]
+    if (char === '#') {
+      while (cursor.pos < cursor.text.length && cursor.text[cursor.pos] !== '\n') {
+        cursor.pos += 1
+      }
+      continue
+    }
+    if (includeNewlines && char === '\n') {
+      cursor.pos += 1
+      continue
+    }
+    return
+  }
+}
+
+function expectLineEnd(cursor: TomlCursor): void {
+  skipWhitespaceAndComments(cursor, false)
+  if (cursor.pos < cursor.text.length && cursor.text[cursor.pos] !== '\n') {
+    throw tomlError(cursor, `unexpected "${cursor.text.slice(cursor.pos).split('\n')[0]}"`)
+  }
+}
+
+function parseKey(cursor: TomlCursor): string[] {
+  const keys: string[] = []
+  for (;;) {
+    skipInlineWhitespace(cursor)
+    const char = cursor.text[cursor.pos]
+    if (char === '"' || char === "'") {
+      keys.push(parseString(cursor))
+    } else {
+      const start = cursor.pos
+      while (cursor.pos < cursor.text.length && BARE_KEY.test(cursor.text[cursor.pos]!)) {
+        cursor.pos += 1
+      }
+      if (start === cursor.pos) {
+        throw tomlError(cursor, 'expected a key')
+      }
+      keys.push(cursor.text.slice(start, cursor.pos))
+    }
+    skipInlineWhitespace(cursor)
+    if (cursor.text[cursor.pos] !== '.') {
+      return keys
+    }
+    cursor.pos += 1
+  }
+}
+
+function isTable(value: FrontMatterValue | undefined): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+function descend(cursor: TomlCursor, table: TomlTable, key: string, pos: number): TomlTable {
+  const existing = table[key]
+  if (existing === undefined) {
+    const created: TomlTable = {}
+    table[key] = created
+    return created
+  }
+  if (Array.isArray(existing)) {
+    const last = existing[existing.length - 1]
+    if (isTable(last)) {
+      return last
+    }
+  }
+  if (isTable(existing)) {
+    return existing
+  }
+  throw tomlError(cursor, `key "${key}" is already defined as a value`, pos)
+}
+
+function openTable(
+  cursor: TomlCursor,
+  root: TomlTable,
+  keys: readonly string[],
+  definedTables: Set<TomlTable>,
+  pos: number,
+): TomlTable {
+  const table = keys.reduce((parent, key) => descend(cursor, parent, key, pos), root)
+  if (definedTables.has(table)) {
+    throw tomlError(cursor, `table "[${keys.join('.')}]" is defined more than once`, pos)
+  }
+  definedTables.add(table)
+  return table
+}
+
+function appendArrayTable(
+  cursor: TomlCursor,
+  root: TomlTable,
+  keys: readonly string[],
+  pos: number,
+): TomlTable {
+  const parent = keys.slice(0, -1).reduce((table, key) => descend(cursor, table, key, pos), root)
+  const name = keys[keys.length - 1]!
+  const existing = parent[name]
+  const entry: TomlTable = {}
+  if (existing === undefined) {
+    parent[name] = [entry]
+  } else if (Array.isArray(existing)) {
+    (existing as FrontMatterValue[]).push(entry)
+  } else {
+    throw tomlError(cursor, `key "${keys.join('.')}" is not an array of tables`, pos)
+  }
+  return entry
+}
+
+function assignKey(
+  cursor: TomlCursor,
+  table: TomlTable,
+  keys: readonly string[],
+  value: FrontMatterValue,
+  pos: number,
+): void {
+  const parent = keys.slice(0, -1).reduce((current, key) => descend(cursor, current, key, pos), table)
+  const name = keys[keys.length - 1]!
+  if (Object.prototype.hasOwnProperty.call(parent, name)) {
+    throw tomlError(cursor, `duplicate key "${keys.join('.')}"`, pos)
+  }
+  parent[name] = value
+}
+
+function parseValue(cursor: TomlCursor): FrontMatterValue {
+  const char = cursor.text[cursor.pos]
+
+  if (char === '"' || char === "'") {
+    return parseString(cursor)
+  }
+  if (char === '[') {
+    return parseArray(cursor)
+  }
+  if (char === '{') {
+    return parseInlineTable(cursor)
+  }
+
+  const start = cursor.pos
+  while (cursor.pos < cursor.text.length && !/[,\]}\n#]/.test(cursor.text[cursor.pos]!)) {
+    cursor.pos += 1
+  }
+  // Trimmed rather than split on spaces to allow "1979-05-27 07:32:00Z"
+  const raw = cursor.text.slice(start, cursor.pos).trim()
+  const resolved = resolveTomlScalar(raw)
+  if (resolved === undefined) {
+    throw tomlError(cursor, raw === '' ? 'expected a value' : `invalid value "${raw}"`, start)
+  }
+  return resolved
+}
+
+function resolveTomlScalar(raw: string): FrontMatterValue | undefined {
+  if (raw === 'true') {
+    return true
+  }
+  if (raw === 'false') {
+    return false
+  }
+  if (/^[-+]?(0|[1-9](_?\d)*)$/.test(raw)) {
+    return Number(raw.replace(/_/g, ''))
+  }
+  if (/^0x[0-9a-fA-F](_?[0-9a-fA-F])*$/.test(raw)) {
+    return parseInt(raw.slice(2).replace(/_/g, ''), 16)
+  }
+  if (/^0o[0-7](_?[0-7])*$/.test(raw)) {
+    return parseInt(raw.slice(2).replace(/_/g, ''), 8)
+  }
+  if (/^0b[01](_?[01])*$/.test(raw)) {
+    return parseInt(raw.slice(2).replace(/_/g, ''), 2)
+  }
+  if (/^[-+]?(0|[1-9](_?\d)*)(\.\d(_?\d)*)?([eE][-+]?\d(_?\d)*)?$/.test(raw)) {
+    return Number(raw.replace(/_/g, ''))
+  }
+  if (/^[-+]?inf$/.test(raw)) {
+    return raw.startsWith('-') ? -Infinity : Infinity
+  }
+  if (/^[-+]?nan$/.test(raw)) {
+    return NaN
+  }
+  if (LOCAL_DATE.test(raw)) {
+    return toDate(`${raw}T00:00:00Z`, raw)
+  }
+  if (OFFSET_DATETIME.test(raw)) {
+    return toDate(raw.replace(' ', 'T'), raw)
+  }
+  if (LOCAL_DATETIME.test(raw)) {
+    return toDate(`${raw.replace(' ', 'T')}Z`, raw)
+  }
+  if (/^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(raw)) {
+    return raw
+  }
+  return undefined
+}
+
+function toDate(iso: string, raw: string): Date | string {
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime()) || !isCalendarDate(raw) ? raw : date
+}
+
+function parseString(cursor: TomlCursor): string {
+  const quote = cursor.text[cursor.pos]!
+  const multiline = cursor.text.startsWith(quote.repeat(3), cursor.pos)
+  const delimiter = multiline ? quote.repeat(3) : quote
+  const start = cursor.pos
+  cursor.pos += delimiter.length
+
+  // A newline immediately after the opening delimiter is trimmed
+  if (multiline && cursor.text[cursor.pos] === '\n') {
+    cursor.pos += 1
+  }
+
+  let result = ''
+  for (;;) {
+    if (cursor.pos >= cursor.text.length || (!multiline && cursor.text[cursor.pos] === '\n')) {
+      throw tomlError(cursor, 'unterminated string', start)
+    }
+    if (cursor.text.startsWith(delimiter, cursor.pos)) {
+      cursor.pos += delimiter.length
+      // Up to two extra quotes directly before the closing delimiter belong to the string
+      for (let extra = 0; multiline && extra < 2 && cursor.text[cursor.pos] === quote; extra += 1) {
+        result += quote
+        cursor.pos += 1
+      }
+      return result
+    }
+    const char = cursor.text[cursor.pos]!
+    if (quote === '"' && char === '\\') {
+      result += parseEscape(cursor, multiline)
+      continue
+    }
+    result += char
+    cursor.pos += 1
+  }
+}
+
+function parseEscape(cursor: TomlCursor, multiline: boolean): string {
+  const next = cursor.text[cursor.pos + 1]
+  const simple: Record<string, string> = {
+    b: '\b',
+    t: '\t',
+    n: '\n',
+    f: '\f',
+    r: '\r',
+    e: '\x1b',
+    '"': '"',
+    '\\': '\\',
+  }
+  if (next !== undefined && simple[next] !== undefined) {
+    cursor.pos += 2
+    return simple[next]!
+  }
+  if (next === 'u' || next === 'U') {
+    const length = next === 'u' ? 4 : 8
+    const hex = cursor.text.slice(cursor.pos + 2, cursor.pos + 2 + length)
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+      throw tomlError(cursor, `invalid unicode escape "\\${next}${hex}"`)
+    }
+    cursor.pos += 2 + length
+    return String.fromCodePoint(parseInt(hex, 16))
+  }
+  // Line-ending backslash trims the newline and following whitespace
+  if (multiline && /^\\[ \t]*\n/.test(cursor.text.slice(cursor.pos))) {
+    cursor.pos += 1
+    while (/\s/.test(cursor.text[cursor.pos] ?? '')) {
+      cursor.pos += 1
+    }
+    return ''
+  }
+  throw tomlError(cursor, `invalid escape "\\${next ?? ''}"`)
+}
+
+function parseArray(cursor: TomlCursor): FrontMatterValue[] {
+  const start = cursor.pos
+  cursor.pos += 1
+  const items: FrontMatterValue[] = []
+  for (;;) {
+    skipWhitespaceAndComments(cursor, true)
+    if (cursor.pos >= cursor.text.length) {
+      throw tomlError(cursor, 'unterminated array, expected "]"', start)
+    }
+    if (cursor.text[cursor.pos] === ']') {
+      cursor.pos += 1
+      return items
+    }
+    items.push(parseValue(cursor))
+    skipWhitespaceAndComments(cursor, true)
+    if (cursor.text[cursor.pos] === ',') {
+      cursor.pos += 1
+    } else if (cursor.text[cursor.pos] !== ']') {
+      throw tomlError(cursor, 'expected "," or "]" in array')
+    }
+  }
+}
+
+function parseInlineTable(cursor: TomlCursor): TomlTable {
+  cursor.pos += 1
+  const table: TomlTable = {}
+  skipInlineWhitespace(cursor)
+  if (cursor.text[cursor.pos] === '}') {
+    cursor.pos += 1
+    return table
+  }
+  for (;;) {
+    const keyStart = cursor.pos
+    const keys = parseKey(cursor)
+    if (cursor.text[cursor.pos] !== '=') {
+      throw tomlError(cursor, `expected "=" after key "${keys.join('.')}"`)
+    }
+    cursor.pos += 1
+    skipInlineWhitespace(cursor)
+    assignKey(cursor, table, keys, parseValue(cursor), keyStart)
+    skipInlineWhitespace(cursor)
+    if (cursor.text[cursor.pos] === '}') {
+      cursor.pos += 1
+      return table
+    }
+    if (cursor.text[cursor.pos] !== ',') {
+      throw tomlError(cursor, 'expected "," or "}" in inline table')
+    }
+    cursor.pos += 1
+    skipInlineWhitespace(cursor)
+  }
+}
+
+/**
+ * Serializes front matter values to TOML. Nested objects become `[tables]`
+ * and lists of objects become `[[arrays of tables]]`.
+ */
+export function stringifyToml(data: { readonly [key: string]: FrontMatterValue | undefined }): string {
+  return formatTomlTable(data, []).join('\n')
+}
+
+function formatTomlTable(
+  data: { readonly [key: string]: FrontMatterValue | undefined },
+  path: readonly string[],
+): string[] {
+  const lines: string[] = []
+  const nested: string[] = []
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null) {
+      // TOML has no null; omitting the key is the closest equivalent
+      continue
+    }
+    const childPath = [...path, formatTomlKey(key)]
+    if (isTable(value)) {
+      nested.push('', `[${childPath.join('.')}]`, ...formatTomlTable(value, childPath))
+      continue
+    }
+    if (Array.isArray(value) && value.length > 0 && value.every((item: FrontMatterValue) => isTable(item))) {
+      for (const item of value as TomlTable[]) {
+        nested.push('', `[[${childPath.join('.')}]]`, ...formatTomlTable(item, childPath))
+      }
+      continue
+    }
+    lines.push(`${formatTomlKey(key)} = ${formatTomlValue(value)}`)
+  }
+
+  return [...lines, ...nested]
+}
+
+function formatTomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : formatTomlString(key)
+}
+
+function formatTomlValue(value: FrontMatterValue): string {
+  if (value === null) {
+    return '""'
+  }
+  if (typeof value === 'string') {
+    return formatTomlString(value)
+  }
+  if (typeof value === 'boolean') {
+    return String(value)
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return 'nan'
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? 'inf' : '-inf'
+    }
+    return String(value)
+  }
+  if (value instanceof Date) {
+    return formatTimestamp(value)
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item: FrontMatterValue) => formatTomlValue(item)).join(', ')}]`
+  }
+  const entries = Object.entries(value as TomlTable)
+    .filter(([, child]) => child !== null)
+    .map(([key, child]) => `${formatTomlKey(key)} = ${formatTomlValue(child)}`)
+  return `{ ${entries.join(', ')} }`
+}
+
+function formatTomlString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+  return `"${escaped}"`
+}
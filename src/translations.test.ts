@@ -0,0 +1,56 @@
+import { test, expect } from 'bun:test'
+import type { Translator } from 'deepl-node'
+import type { BuilderConfig } from './config.js'
+import { extractFrontMatter } from './frontmatter.js'
+import { translateMarkdownPlan } from './translations.js'
+
+// Marks each text instead of calling DeepL
+const translator = {
+  translateText: async (text: string) => ({ text: `fr:${text}` }),
+} as unknown as Translator
+
+const config: BuilderConfig = {
+  contentDir: 'content',
+  outputDir: 'docs',
+  templatePath: 'template.html',
+  baseUrl: 'https://example.com',
+  defaultMeta: {
+    title: 'Studio',
+    description: 'Aerial classes',
+    sidebarTitle: 'Menu',
+    sidebarSummary: 'Find a class',
+    backLinkHref: '/',
+    backLinkLabel: 'Back',
+    ogImage: '/og.png',
+  },
+  translations: {
+    targetLanguages: ['fr'],
+    defaultLang: 'en',
+  },
+}
+
+test('translateMarkdownPlan - translates defaultMeta text the page relies on', async () => {
+  const { markdown } = await translateMarkdownPlan(
+    {
+      slug: 'prices',
+      translationOf: 'prices',
+      targetLang: 'fr',
+      sourceBody: 'Hello',
+      sourceMeta: { title: 'Prices', sidebarTitle: 'Pricing' },
+      sourceFormat: 'yaml',
+      sourceRelativeDir: '',
+      sourceFileName: 'prices.md',
+    },
+    translator,
+    config,
+  )
+
+  const { meta } = extractFrontMatter(markdown)
+  expect(meta.title).toBe('fr:Prices')
+  expect(meta.sidebarTitle).toBe('fr:Pricing')
+  expect(meta.backLinkLabel).toBe('fr:Back')
+  expect(meta.description).toBe('fr:Aerial classes')
+  // Other defaults still apply at build time
+  expect(meta.ogImage).toBeUndefined()
+  expect(meta.backLinkHref).toBeUndefined()
+})
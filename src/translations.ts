@@ -5,12 +5,21 @@ import type { TargetLanguageCode, SourceLanguageCode } from 'deepl-node'
 import type {
   BuilderConfig,
   FrontMatter,
+  FrontMatterFormat,
+  FrontMatterValue,
+  SlugMode,
   TranslatePlan,
   TranslationConfig,
 } from './config.js'
-import { getDefaultLang, getSupportedLangs } from './config.js'
-import { extractFrontMatter, sanitizeSlug, isBooleanEnabled as isTranslateEnabled, inferLangFromPath } from './frontmatter.js'
+import { getDefaultLang, getI18nDir, getSupportedLangs } from './config.js'
+import { extractFrontMatter, getPublishState, sanitizeSlug, isBooleanEnabled as isTranslateEnabled, inferLangFromPath } from './frontmatter.js'
 import { collectMarkdownFiles, extractSlugFromPath, logWarning } from './utils.js'
+import { createDirectoryDefaultsResolver } from './cascade.js'
+import { stringifyToml } from './toml.js'
+import { stringifyYaml } from './yaml.js'
+import { getStringFilePath, loadStringFile } from './i18n.js'
+import { ADMONITION_FENCE_PATTERN } from './admonitions.js'
+import { SHORTCODE_TAG_PATTERN } from './shortcodes.js'
 
 let translatorInstance: Translator | null | undefined
 let translationWarned = false
@@ -42,7 +51,12 @@ export async function ensureTranslations(
   const supportedLangs = getSupportedLangs(config, defaultLang)
   const targetLangs = config.translations.targetLanguages
 
+  if (config.translations.translateStrings) {
+    await translateMissingStrings(getI18nDir(config), defaultLang, targetLangs, translator, config.translations)
+  }
+
   const markdownFiles = await collectMarkdownFiles(contentDir)
+  const resolveDirectoryDefaults = createDirectoryDefaultsResolver(contentDir)
 
   const translationPlans: TranslatePlan[] = []
   for (const sourcePath of markdownFiles) {
@@ -52,7 +66,10 @@ export async function ensureTranslations(
       continue
     }
     const raw = await readFile(sourcePath, 'utf-8')
-    const { body, meta } = extractFrontMatter(raw)
+    const { body, meta: pageMeta, format } = extractFrontMatter(raw, path.relative(process.cwd(), sourcePath))
+    // Directory defaults decide whether the page is translated, but only the
+    // page's own front matter is written; defaults cascade again at build time
+    const meta: FrontMatter = { ...(await resolveDirectoryDefaults(sourcePath)), ...pageMeta }
     const lang = meta.lang ?? inferredLang
     if (lang !== defaultLang) {
       continue
@@ -62,8 +79,14 @@ export async function ensureTranslations(
       continue
     }
 
+    // Drafts, scheduled and expired pages are translated once published
+    if (getPublishState(meta) !== 'published') {
+      continue
+    }
+
     const slug = sanitizeSlug(
       meta.slug ?? extractSlugFromPath(sourcePath),
+      config.slugMode,
     )
     const translationOf = (meta.translationOf ?? slug).trim() || slug
     const relativeDir = path.dirname(relativeSource)
@@ -90,7 +113,8 @@ export async function ensureTranslations(
         translationOf,
         targetLang,
         sourceBody: body,
-        sourceMeta: meta,
+        sourceMeta: pageMeta,
+        sourceFormat: format ?? 'yaml',
         sourceRelativeDir: cleanDir,
         sourceFileName,
       })
@@ -115,23 +139,78 @@ export async function ensureTranslations(
   }
 }
 
-async function translateMarkdownPlan(
+/**
+ * Adds keys missing from `i18n/<lang>.json` by translating the default
+ * language's strings. Existing translations are never overwritten.
+ */
+async function translateMissingStrings(
+  i18nDir: string,
+  defaultLang: string,
+  targetLangs: readonly TargetLanguageCode[],
+  translator: Translator,
+  translationConfig: TranslationConfig,
+): Promise<void> {
+  const source = await loadStringFile(getStringFilePath(i18nDir, defaultLang))
+
+  for (const targetLang of targetLangs) {
+    const targetPath = getStringFilePath(i18nDir, targetLang)
+    const existing = await loadStringFile(targetPath)
+    const missing = Object.keys(source).filter((key) => !(key in existing))
+    if (missing.length === 0) {
+      continue
+    }
+
+    const strings: Record<string, string> = { ...existing }
+    for (const key of missing) {
+      strings[key] = await translateField(source[key], targetLang, translator, translationConfig)
+    }
+    // Follow the default language's key order so the files line up
+    const keys = [...new Set([...Object.keys(source), ...Object.keys(existing)])]
+    const ordered = Object.fromEntries(keys.map((key) => [key, strings[key]]))
+    await mkdir(i18nDir, { recursive: true })
+    await writeFile(targetPath, `${JSON.stringify(ordered, null, 2)}\n`)
+    console.log(`Translated ${missing.length} string${missing.length === 1 ? '' : 's'} -> ${path.relative(process.cwd(), targetPath)}`)
+  }
+}
+
+/** `defaultMeta` fields a translated page should show in its own language */
+const DEFAULT_TEXT_FIELDS = [
+  'title',
+  'description',
+  'sidebarTitle',
+  'sidebarSummary',
+  'backLinkLabel',
+  'navTitle',
+  'ogImageAlt',
+] as const
+
+export async function translateMarkdownPlan(
   plan: TranslatePlan,
   translator: Translator,
   config: BuilderConfig,
 ): Promise<{ readonly slug: string; readonly markdown: string }> {
-  const mergedMeta: FrontMatter = {
-    ...config.defaultMeta,
+  // Besides the page's own keys, only the `defaultMeta` text the page shows
+  // is written, translated; other defaults such as `ogImage` or `layout`
+  // keep applying at build time, so later config changes reach them too
+  const defaultText = Object.fromEntries(
+    DEFAULT_TEXT_FIELDS.flatMap((key) => {
+      const value = config.defaultMeta[key]
+      return typeof value === 'string' ? [[key, value]] : []
+    }),
+  )
+  const sourceMeta: FrontMatter = {
+    ...defaultText,
     ...plan.sourceMeta,
     slug: plan.slug,
     translationOf: plan.translationOf,
   }
 
   const translatedMeta = await translateMetaFields(
-    mergedMeta,
+    sourceMeta,
     plan.targetLang,
     translator,
     config.translations as TranslationConfig,
+    config.slugMode,
   )
   const translatedBody = await translateMarkdownBody(
     plan.sourceBody,
@@ -140,10 +219,10 @@ async function translateMarkdownPlan(
     config.translations as TranslationConfig,
   )
 
-  const { lang: _, ...metaWithoutLang } = { ...mergedMeta, ...translatedMeta }
+  const { lang: _, ...metaWithoutLang } = { ...sourceMeta, ...translatedMeta }
   const frontMatter = formatFrontMatter({
     ...metaWithoutLang,
-  })
+  }, plan.sourceFormat)
 
   return {
     slug: translatedMeta.slug ?? plan.slug,
@@ -156,6 +235,7 @@ async function translateMetaFields(
   targetLang: TargetLanguageCode,
   translator: Translator,
   translationConfig: TranslationConfig,
+  slugMode?: SlugMode,
 ): Promise<Partial<FrontMatter>> {
   const translateOrFallback = async (
     value: string | undefined,
@@ -168,11 +248,13 @@ async function translateMetaFields(
 
   return {
     title: await translateOrFallback(meta.title),
-    slug: await translateSlug(meta.slug ?? meta.title ?? '', targetLang, translator),
+    slug: await translateSlug(meta.slug ?? meta.title ?? '', targetLang, translator, slugMode),
     description: await translateOrFallback(meta.description),
     sidebarTitle: await translateOrFallback(meta.sidebarTitle),
     sidebarSummary: await translateOrFallback(meta.sidebarSummary),
     backLinkLabel: await translateOrFallback(meta.backLinkLabel),
+    navTitle: await translateOrFallback(meta.navTitle),
+    ogImageAlt: await translateOrFallback(meta.ogImageAlt),
   }
 }
 
@@ -180,6 +262,7 @@ async function translateSlug(
   slug: string,
   targetLang: TargetLanguageCode,
   translator: Translator,
+  slugMode?: SlugMode,
 ): Promise<string> {
   if (!slug) {
     return slug
@@ -191,7 +274,7 @@ async function translateSlug(
     ? translatedResult.map((item) => item.text).join('\n')
     : translatedResult.text
 
-  return sanitizeSlug(translated)
+  return sanitizeSlug(translated, slugMode)
 }
 
 async function translateField(
@@ -216,6 +299,8 @@ async function translateField(
   return translated
 }
 
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\{?[^{}]+\}?\}\}|\[\[toc\]\]/gi
+
 async function translateMarkdownBody(
   body: string,
   targetLang: TargetLanguageCode,
@@ -229,8 +314,21 @@ async function translateMarkdownBody(
     readonly href: string
   }> = []
 
+  // Keep `{{data.*}}`, `[[toc]]` and similar placeholders out of the translator so the
+  // translated page picks up its language's data at build time. `:::note` fences and
+  // `{{< shortcode >}}` tags are kept the same way; the content between them is translated.
+  const templatePlaceholders: string[] = []
+  const protect = (match: string): string => {
+    templatePlaceholders.push(match)
+    return `@@VAR_${templatePlaceholders.length - 1}@@`
+  }
+  const bodyWithoutTemplates = body
+    .replace(SHORTCODE_TAG_PATTERN, protect)
+    .replace(ADMONITION_FENCE_PATTERN, protect)
+    .replace(TEMPLATE_PLACEHOLDER_PATTERN, protect)
+
   let linkIndex = 0
-  const bodyWithPlaceholders = body.replace(
+  const bodyWithPlaceholders = bodyWithoutTemplates.replace(
     linkPattern,
     (_match, text: string, href: string) => {
       const placeholder = `@@LINK_${linkIndex}@@`
@@ -259,55 +357,50 @@ async function translateMarkdownBody(
     }),
   )
 
-  return translatedLinks.reduce((acc, link) => {
+  const withLinks = translatedLinks.reduce((acc, link) => {
     return acc.replace(link.placeholder, `[${link.text}](${link.href})`)
   }, translatedBody)
+  return templatePlaceholders.reduce(
+    (acc, placeholder, index) => acc.replace(`@@VAR_${index}@@`, placeholder),
+    withLinks,
+  )
 }
 
-function formatFrontMatter(meta: FrontMatter): string {
-  const lines: string[] = ['---']
-
-  const entries: Array<[keyof FrontMatter, string | undefined]> = [
-    ['title', meta.title],
-    ['description', meta.description],
-    ['sidebarTitle', meta.sidebarTitle],
-    ['sidebarSummary', meta.sidebarSummary],
-    ['backLinkHref', meta.backLinkHref],
-    ['backLinkLabel', meta.backLinkLabel],
-    ['slug', meta.slug],
-    ['translationOf', meta.translationOf],
-    ['noindex', meta.noindex !== undefined ? String(meta.noindex) : undefined],
-  ]
-
-  for (const [key, value] of entries) {
-    if (value !== undefined) {
-      lines.push(`${key}: ${formatMetaValue(key, value)}`)
+const FRONT_MATTER_KEY_ORDER: ReadonlyArray<keyof FrontMatter> = [
+  'title',
+  'description',
+  'sidebarTitle',
+  'sidebarSummary',
+  'backLinkHref',
+  'backLinkLabel',
+  'slug',
+  'layout',
+  'translationOf',
+  'noindex',
+]
+
+// Source-language only: translated files never re-trigger translation
+const OMITTED_FRONT_MATTER_KEYS: ReadonlyArray<keyof FrontMatter> = ['lang', 'translate']
+
+function formatFrontMatter(meta: FrontMatter, format: FrontMatterFormat = 'yaml'): string {
+  const ordered: Record<string, FrontMatterValue | undefined> = {}
+  for (const key of FRONT_MATTER_KEY_ORDER) {
+    ordered[key] = meta[key]
+  }
+  for (const [key, value] of Object.entries(meta)) {
+    if (!(key in ordered) && !OMITTED_FRONT_MATTER_KEYS.includes(key)) {
+      ordered[key] = value
     }
   }
 
-  lines.push('---')
-  return lines.join('\n')
-}
-
-function formatMetaValue(key: keyof FrontMatter, value: string): string {
-  const plainKeys: Array<keyof FrontMatter> = [
-    'slug',
-    'lang',
-    'translationOf',
-    'backLinkHref',
-    'backLinkLabel',
-    'translate',
-    'noindex',
-  ]
-  if (plainKeys.includes(key)) {
-    return value
-  }
-  const needsQuotes = /[:"]/g.test(value) || /^\s|\s$/.test(value)
-  if (!needsQuotes) {
-    return value
+  switch (format) {
+    case 'toml':
+      return ['+++', stringifyToml(ordered), '+++'].join('\n')
+    case 'json':
+      return JSON.stringify(ordered, null, 2)
+    default:
+      return ['---', stringifyYaml(ordered), '---'].join('\n')
   }
-  const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
-  return `"${escaped}"`
 }
 
 async function getCustomGlossaryId(
@@ -1,7 +1,7 @@
 import { test, expect, beforeEach, afterEach } from 'bun:test'
 import { mkdir, writeFile, rm } from 'node:fs/promises'
 import path from 'node:path'
-import { serializeUtmParams, appendUtmParams, normalizeIndexUrl, obfuscateMailtoLinks, collectMarkdownFiles, collectHtmlFiles, extractSlugFromPath, normalizePathSeparators } from './utils.js'
+import { serializeUtmParams, appendUtmParams, normalizeIndexUrl, obfuscateMailtoLinks, collectMarkdownFiles, collectHtmlFiles, extractSlugFromPath, normalizePathSeparators, slugify, toPageUrl, replaceOutsideCode } from './utils.js'
 
 const TEST_DIR = path.join(process.cwd(), '.test-utils')
 
@@ -43,6 +43,13 @@ test('appendUtmParams - no utm params', () => {
   expect(result).toBe(html)
 })
 
+test('toPageUrl - gives directory index pages the directory URL', () => {
+  expect(toPageUrl('index.html', 'https://example.com')).toBe('https://example.com/')
+  expect(toPageUrl('fr/index.html', 'https://example.com')).toBe('https://example.com/fr')
+  expect(toPageUrl('classes/index.html', 'https://example.com')).toBe('https://example.com/classes')
+  expect(toPageUrl('classes/silks.html', 'https://example.com')).toBe('https://example.com/classes/silks')
+})
+
 test('normalizeIndexUrl - removes /index suffix', () => {
   expect(normalizeIndexUrl('index')).toBe('')
   expect(normalizeIndexUrl('/index')).toBe('')
@@ -123,3 +130,43 @@ test('normalizePathSeparators - normalizes Windows paths to forward slashes', ()
   expect(normalizePathSeparators('path\\to\\file.html')).toBe('path/to/file.html')
 })
 
+
+test('slugify - keeps the legacy output for ASCII text', () => {
+  expect(slugify('Node.js setup', 'auto', 'anchor')).toBe('nodejs-setup')
+  expect(slugify('v1.2 release', 'auto', 'anchor')).toBe('v12-release')
+  expect(slugify('Q&A', 'auto', 'anchor')).toBe('qa')
+  expect(slugify('  Snake_case -- Title ', 'auto', 'anchor')).toBe('snake-case-title')
+  expect(slugify("What's new")).toBe('what-s-new')
+  expect(slugify('Node.js setup')).toBe('node-js-setup')
+  expect(slugify('Snake_case')).toBe('snake-case')
+})
+
+test('slugify - drops accents from Latin letters and keeps other scripts', () => {
+  expect(slugify('Équipement')).toBe('equipement')
+  expect(slugify('Straße & Smørrebrød')).toBe('strasse-smorrebrod')
+  expect(slugify('Ελληνικά')).toBe('ελληνικά')
+  expect(slugify('日本語 ガイド', 'auto', 'anchor')).toBe('日本語-ガイド')
+  expect(slugify('हिन्दी')).toBe('हिन्दी')
+})
+
+test('slugify - transliterate mode spells Greek and Cyrillic in ASCII', () => {
+  expect(slugify('Ελληνικά', 'transliterate')).toBe('ellinika')
+  expect(slugify('Привет, мир', 'transliterate')).toBe('privet-mir')
+  expect(slugify('Привет, мир', 'transliterate', 'anchor')).toBe('privet-mir')
+  expect(slugify('日本語', 'transliterate')).toBe('')
+})
+
+test('slugify - unicode mode keeps letters from any script', () => {
+  expect(slugify('Équipement', 'unicode')).toBe('équipement')
+  expect(slugify('日本語 ガイド', 'unicode')).toBe('日本語-ガイド')
+  expect(slugify('Ελληνικά!', 'unicode')).toBe('ελληνικά')
+  expect(slugify('🎪 Snake_case', 'unicode')).toBe('snake-case')
+})
+
+test('replaceOutsideCode - leaves fenced and inline code alone', () => {
+  const upper = (text: string): string => text.toUpperCase()
+  expect(replaceOutsideCode('a `b` c ``d ` e`` f', upper)).toBe('A `b` C ``d ` e`` F')
+  expect(replaceOutsideCode('a\n~~~\nb `c\n~~~\nd` e', upper)).toBe('A\n~~~\nb `c\n~~~\nD` E')
+  // An unclosed span is plain text
+  expect(replaceOutsideCode('a `b', upper)).toBe('A `B')
+})
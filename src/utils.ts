@@ -1,9 +1,17 @@
 import path from 'node:path'
 import { readdir, unlink } from 'node:fs/promises'
-import type { UtmParams } from './config.js'
+import type { SlugMode, UtmParams } from './config.js'
 
 const ZERO_WIDTH_SPACE = '&#8203;'
 
+// Content files that configure a directory rather than render as pages
+const RESERVED_CONTENT_NAMES = ['_defaults.md']
+const RESERVED_CONTENT_DIRS = ['_data']
+
+const CODE_FENCE = /^[ \t>]*(`{3,}|~{3,})/
+// A run of backticks closed by a run of the same length
+const INLINE_CODE = /(?<!`)(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g
+
 const ANSI_RESET = '\x1b[0m'
 const ANSI_YELLOW = '\x1b[33m'
 const ANSI_RED = '\x1b[31m'
@@ -16,6 +24,21 @@ export function logError(message: string, ...args: unknown[]): void {
   console.error(`${ANSI_RED}[error]${ANSI_RESET} ${message}`, ...args)
 }
 
+export function escapeHtml(text: string | undefined): string {
+  if (!text) return ''
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;')
+}
+
+export function toAbsoluteUrl(relativePath: string, baseUrl: string): string {
+  const normalized = `/${relativePath.replace(/^\/+/, '')}`
+  return new URL(normalized, baseUrl).toString()
+}
+
 export function serializeUtmParams(utmParams: UtmParams): string {
   return Object.entries(utmParams)
     .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
@@ -93,9 +116,11 @@ export async function collectMarkdownFiles(dir: string): Promise<readonly string
     entries.map(async (entry) => {
       const fullPath = path.join(dir, entry.name)
       if (entry.isDirectory()) {
-        return collectMarkdownFiles(fullPath)
+        return RESERVED_CONTENT_DIRS.includes(entry.name) ? [] : collectMarkdownFiles(fullPath)
       }
-      return entry.isFile() && entry.name.endsWith('.md') ? [fullPath] : []
+      return entry.isFile() && entry.name.endsWith('.md') && !RESERVED_CONTENT_NAMES.includes(entry.name)
+        ? [fullPath]
+        : []
     }),
   )
   return files.flat()
@@ -125,13 +150,162 @@ export function normalizeIndexUrl(path: string): string {
   return normalized
 }
 
-export function slugifyAnchor(text: string): string {
-  return text
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, '')
-    .replace(/[\s_-]+/g, '-')
-    .replace(/^-+|-+$/g, '')
+/**
+ * The public URL of a built page: no `.html`, and a directory's `index`
+ * page is the directory itself (`classes/index.html` is `/classes`)
+ */
+export function toPageUrl(relativeOutput: string, baseUrl: string): string {
+  return toAbsoluteUrl(normalizeIndexUrl(stripHtmlExtension(relativeOutput)), baseUrl)
+}
+
+/** Start and end offsets of fenced code blocks; an unclosed one runs to the end */
+export function findCodeFences(markdown: string): Array<readonly [number, number]> {
+  const fences: Array<readonly [number, number]> = []
+  let open: { readonly marker: string; readonly start: number } | undefined
+  let offset = 0
+  for (const line of markdown.split('\n')) {
+    const marker = line.match(CODE_FENCE)?.[1]
+    if (!open && marker) {
+      open = { marker, start: offset }
+    } else if (open && marker && marker[0] === open.marker[0] && marker.length >= open.marker.length &&
+      line.replace(/^[ \t>]*/, '').trim() === marker) {
+      // A closing fence uses the same character, at least as many times, and nothing else
+      fences.push([open.start, offset + line.length])
+      open = undefined
+    }
+    offset += line.length + 1
+  }
+  if (open) {
+    fences.push([open.start, markdown.length])
+  }
+  return fences
+}
+
+export function isInside(ranges: ReadonlyArray<readonly [number, number]>, offset: number): boolean {
+  return ranges.some(([start, end]) => offset >= start && offset < end)
+}
+
+/**
+ * Applies `replace` to the markdown outside fenced code blocks and inline
+ * code spans, so placeholders shown as code stay literal.
+ */
+export function replaceOutsideCode(markdown: string, replace: (text: string) => string): string {
+  const replaceOutsideInlineCode = (text: string): string => {
+    let result = ''
+    let position = 0
+    for (const match of text.matchAll(INLINE_CODE)) {
+      const start = match.index ?? 0
+      result += replace(text.slice(position, start)) + match[0]
+      position = start + match[0].length
+    }
+    return result + replace(text.slice(position))
+  }
+
+  let result = ''
+  let position = 0
+  for (const [start, end] of findCodeFences(markdown)) {
+    result += replaceOutsideInlineCode(markdown.slice(position, start)) + markdown.slice(start, end)
+    position = end
+  }
+  return result + replaceOutsideInlineCode(markdown.slice(position))
+}
+
+/** Turns a path segment into a label, e.g. `aerial-silks` to `Aerial Silks` */
+export function humanizeSlug(segment: string): string {
+  return segment
+    .split('-')
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+// Latin letters NFKD leaves alone, plus Greek and Cyrillic for `transliterate`
+const TRANSLITERATIONS: Readonly<Record<string, string>> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i', ħ: 'h', ŋ: 'ng',
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l', μ: 'm',
+  ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+  а: 'a', б: 'b', в: 'v', г: 'g', ґ: 'g', д: 'd', е: 'e', є: 'ye', ж: 'zh', з: 'z', и: 'i', і: 'i',
+  ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u',
+  ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+}
+
+// Latin letters outside ASCII, which `auto` spells without their accents
+const ACCENTED_LATIN = /(?![\p{ASCII}])\p{Script=Latin}/gu
+// What a heading id drops and a page slug turns into a hyphen; `transliterate` keeps ASCII only
+const ANCHOR_PUNCTUATION = { ascii: /[^a-z0-9_\s-]/g, unicode: /[^\p{L}\p{M}\p{N}_\s-]/gu }
+const SLUG_PUNCTUATION = { ascii: /[^a-z0-9-]/g, unicode: /[^\p{L}\p{M}\p{N}-]/gu }
+
+/**
+ * The one slug function behind page slugs, heading ids and the link
+ * checker, so they always agree. ASCII text slugs as it always has: a
+ * heading id (`style: 'anchor'`) drops punctuation, so `Node.js setup`
+ * becomes `nodejs-setup`, while a page slug turns it into a hyphen, so
+ * `What's new` becomes `what-s-new`.
+ */
+export function slugify(text: string, mode: SlugMode = 'auto', style: 'page' | 'anchor' = 'page'): string {
+  const value = foldLetters(text.toLowerCase().trim(), mode)
+  const script = mode === 'transliterate' ? 'ascii' : 'unicode'
+  if (style === 'anchor') {
+    return value
+      .replace(ANCHOR_PUNCTUATION[script], '')
+      .replace(/[\s_-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+  }
+  return value
+    .replace(/\s+/g, '-')
+    .replace(SLUG_PUNCTUATION[script], '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+export function slugifyAnchor(text: string, mode?: SlugMode): string {
+  return slugify(text, mode, 'anchor')
+}
+
+function foldLetters(text: string, mode: SlugMode): string {
+  switch (mode) {
+    case 'unicode':
+      return text.normalize('NFC')
+    case 'transliterate':
+      // Decompose `é` into `e` plus an accent, drop the accent, then map the rest
+      return text
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .replace(/[^\p{ASCII}]/gu, (char) => TRANSLITERATIONS[char] ?? char)
+    default:
+      return text
+        .normalize('NFC')
+        .replace(ACCENTED_LATIN, (char) => TRANSLITERATIONS[char] ?? char.normalize('NFKD').replace(/\p{M}/gu, ''))
+  }
+}
+
+/**
+ * Finds the candidate closest to `value` (case-insensitive), for "did you
+ * mean" hints. Returns null when nothing is within a few typos.
+ */
+export function findClosestMatch(value: string, candidates: readonly string[]): string | null {
+  const normalized = value.toLowerCase()
+  let best: { readonly candidate: string; readonly distance: number } | null = null
+  for (const candidate of candidates) {
+    const distance = editDistance(normalized, candidate.toLowerCase())
+    if (distance <= Math.max(1, Math.floor(candidate.length / 4)) && (!best || distance < best.distance)) {
+      best = { candidate, distance }
+    }
+  }
+  return best?.candidate ?? null
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost))
+    }
+    previous = current
+  }
+  return previous[b.length]!
 }
 
 export function extractSlugFromPath(filePath: string): string {
@@ -0,0 +1,119 @@
+import { test, expect } from 'bun:test'
+import { parseYaml, parseYamlDocument, stringifyYaml } from './yaml.js'
+
+test('parseYaml - scalars resolve to typed values', () => {
+  const result = parseYaml(`count: 3
+price: 12.5
+enabled: true
+disabled: false
+empty:
+nothing: ~
+phone: 0612345678
+date: 2024-03-01
+time: 2024-03-01T10:30:00Z
+name: Plain text`)
+  expect(result.count).toBe(3)
+  expect(result.price).toBe(12.5)
+  expect(result.enabled).toBe(true)
+  expect(result.disabled).toBe(false)
+  expect(result.empty).toBeNull()
+  expect(result.nothing).toBeNull()
+  expect(result.phone).toBe('0612345678')
+  expect(result.date).toEqual(new Date(Date.UTC(2024, 2, 1)))
+  expect(result.time).toEqual(new Date('2024-03-01T10:30:00Z'))
+  expect(result.name).toBe('Plain text')
+})
+
+test('parseYaml - quoted strings and comments', () => {
+  const result = parseYaml(`# leading comment
+double: "Say \\"hi\\"\\n"
+single: 'It''s here'
+number: "42"
+trailing: value # a comment
+hash: Class#3`)
+  expect(result.double).toBe('Say "hi"\n')
+  expect(result.single).toBe("It's here")
+  expect(result.number).toBe('42')
+  expect(result.trailing).toBe('value')
+  expect(result.hash).toBe('Class#3')
+})
+
+test('parseYaml - block and flow sequences', () => {
+  const result = parseYaml(`tags:
+  - aerial
+  - yoga
+flat:
+- one
+- two
+inline: [a, "b, c", 3]
+empty: []`)
+  expect(result.tags).toEqual(['aerial', 'yoga'])
+  expect(result.flat).toEqual(['one', 'two'])
+  expect(result.inline).toEqual(['a', 'b, c', 3])
+  expect(result.empty).toEqual([])
+})
+
+test('parseYaml - nested mappings and lists of mappings', () => {
+  const result = parseYaml(`seo:
+  title: SEO title
+  robots:
+    index: false
+authors:
+  - name: Alex
+    role: Instructor
+  - name: Sam
+inline: {a: 1, b: [x, y]}`)
+  expect(result.seo).toEqual({ title: 'SEO title', robots: { index: false } })
+  expect(result.authors).toEqual([{ name: 'Alex', role: 'Instructor' }, { name: 'Sam' }])
+  expect(result.inline).toEqual({ a: 1, b: ['x', 'y'] })
+})
+
+test('parseYaml - block scalars', () => {
+  const result = parseYaml(`literal: |
+  Line one
+  Line two
+folded: >-
+  Folded
+  text
+
+  New paragraph
+plain: first
+  continued`)
+  expect(result.literal).toBe('Line one\nLine two\n')
+  expect(result.folded).toBe('Folded text\nNew paragraph')
+  expect(result.plain).toBe('first continued')
+})
+
+test('parseYaml - reports errors with file name and line number', () => {
+  expect(() => parseYaml('title: ok\n  bad: indent', { fileName: 'page.md', firstLine: 2 })).toThrow(
+    'page.md:3: unexpected indentation',
+  )
+  expect(() => parseYaml('title: "unterminated', { fileName: 'page.md' })).toThrow(
+    'page.md:1: unterminated quoted string',
+  )
+  expect(() => parseYaml('title: a\ntitle: b')).toThrow('line 2: duplicate key "title"')
+  expect(() => parseYaml('just text')).toThrow('line 1: expected "key: value"')
+})
+
+test('stringifyYaml - round-trips through parseYaml', () => {
+  const data = {
+    title: 'Colon: in title',
+    count: 3,
+    zip: '0123',
+    flag: true,
+    literal: 'yes',
+    date: new Date(Date.UTC(2024, 0, 5)),
+    tags: ['a', 'b'],
+    seo: { title: 'Nested', keywords: ['x'] },
+    authors: [{ name: 'Alex', role: 'Lead' }],
+    notes: 'Line one\nLine two',
+  }
+  expect(parseYaml(stringifyYaml(data))).toEqual(data)
+})
+
+test('parseYamlDocument - accepts a list at the top level', () => {
+  expect(parseYamlDocument('- a\n- b: 1\n')).toEqual(['a', { b: 1 }])
+  expect(parseYamlDocument('key: value\n')).toEqual({ key: 'value' })
+  expect(() => parseYaml('- a\n', { fileName: 'data.yaml' })).toThrow('data.yaml:1: expected a mapping of keys to values, found a list')
+  expect(() => parseYamlDocument('- a\nkey: value\n', { fileName: 'data.yaml' })).toThrow('data.yaml:2: unexpected content')
+})
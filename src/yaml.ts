@@ -0,0 +1,727 @@
+import type { FrontMatterValue } from './config.js'
+
+type YamlMapping = { [key: string]: FrontMatterValue }
+
+interface YamlLine {
+  readonly number: number
+  text: string
+}
+
+interface ParserState {
+  readonly lines: YamlLine[]
+  readonly fileName?: string
+  index: number
+}
+
+export interface YamlParseOptions {
+  /** Used to prefix error messages, e.g. `content/about.md:4: ...` */
+  readonly fileName?: string
+  /** Line number of the first line of `source` within the file (default: 1) */
+  readonly firstLine?: number
+}
+
+const NULL_VALUES = ['', '~', 'null', 'Null', 'NULL']
+const TRUE_VALUES = ['true', 'True', 'TRUE']
+const FALSE_VALUES = ['false', 'False', 'FALSE']
+const INTEGER_PATTERN = /^[-+]?(0|[1-9][0-9_]*)$/
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/
+const OCTAL_PATTERN = /^0o[0-7]+$/
+const FLOAT_PATTERN = /^[-+]?(?:\.[0-9]+|(?:0|[1-9][0-9_]*)(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{1,2}-\d{1,2}(?:[Tt]|[ \t]+)\d{1,2}:\d{2}:\d{2}(?:\.\d*)?(?:[ \t]*(?:Z|[-+]\d{1,2}(?::?\d{2})?))?$/
+
+/**
+ * Parses the subset of YAML used in front matter: block mappings and
+ * sequences, flow collections, plain/quoted/block scalars and comments.
+ * Anchors, aliases, tags and multiple documents are not supported.
+ */
+export function parseYaml(source: string, options: YamlParseOptions = {}): YamlMapping {
+  const state = createParserState(source, options)
+  const first = peekDocumentStart(state)
+  if (!first) {
+    return {}
+  }
+  if (isSequenceEntry(first.content)) {
+    throw yamlError(state, first.line, 'expected a mapping of keys to values, found a list')
+  }
+  return expectDocumentEnd(state, parseMapping(state, 0))
+}
+
+/** Like `parseYaml`, but the document may also be a list, e.g. in a data file */
+export function parseYamlDocument(source: string, options: YamlParseOptions = {}): YamlMapping | FrontMatterValue[] {
+  const state = createParserState(source, options)
+  const first = peekDocumentStart(state)
+  if (!first) {
+    return {}
+  }
+  return expectDocumentEnd(
+    state,
+    isSequenceEntry(first.content) ? parseSequence(state, 0) : parseMapping(state, 0),
+  )
+}
+
+function createParserState(source: string, options: YamlParseOptions): ParserState {
+  const firstLine = options.firstLine ?? 1
+  return {
+    lines: source.split(/\r?\n/).map((text, index) => ({ number: firstLine + index, text })),
+    fileName: options.fileName,
+    index: 0,
+  }
+}
+
+function peekDocumentStart(state: ParserState): ReturnType<typeof peekSignificant> {
+  const first = peekSignificant(state)
+  if (first && first.indent !== 0) {
+    throw yamlError(state, first.line, 'unexpected indentation')
+  }
+  return first
+}
+
+function expectDocumentEnd<T>(state: ParserState, result: T): T {
+  const rest = peekSignificant(state)
+  if (rest) {
+    throw yamlError(state, rest.line, 'unexpected content')
+  }
+  return result
+}
+
+function yamlError(state: ParserState, line: YamlLine | number, message: string): Error {
+  const lineNumber = typeof line === 'number' ? line : line.number
+  const location = state.fileName ? `${state.fileName}:${lineNumber}` : `line ${lineNumber}`
+  return new Error(`${location}: ${message}`)
+}
+
+function isBlankOrComment(text: string): boolean {
+  return /^\s*(#.*)?$/.test(text)
+}
+
+function measureIndent(state: ParserState, line: YamlLine): number {
+  const match = line.text.match(/^[ \t]*/)
+  const leading = match?.[0] ?? ''
+  if (leading.includes('\t')) {
+    throw yamlError(state, line, 'tabs are not allowed for indentation')
+  }
+  return leading.length
+}
+
+function peekSignificant(
+  state: ParserState,
+): { readonly line: YamlLine; readonly indent: number; readonly content: string } | null {
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index]!
+    if (!isBlankOrComment(line.text)) {
+      const indent = measureIndent(state, line)
+      return { line, indent, content: line.text.slice(indent) }
+    }
+    state.index += 1
+  }
+  return null
+}
+
+function isSequenceEntry(content: string): boolean {
+  return content === '-' || content.startsWith('- ')
+}
+
+function parseBlock(state: ParserState, indent: number): FrontMatterValue {
+  const next = peekSignificant(state)
+  if (!next) {
+    return null
+  }
+  if (isSequenceEntry(next.content)) {
+    return parseSequence(state, indent)
+  }
+  if (splitMappingEntry(next.content) !== null) {
+    return parseMapping(state, indent)
+  }
+  state.index += 1
+  return parseFlowOrScalar(state, next.line, collectContinuation(state, next.content, indent - 1))
+}
+
+function parseMapping(state: ParserState, indent: number): YamlMapping {
+  const result: YamlMapping = {}
+
+  for (let next = peekSignificant(state); next; next = peekSignificant(state)) {
+    if (next.indent < indent) {
+      break
+    }
+    if (next.indent > indent) {
+      throw yamlError(state, next.line, 'unexpected indentation')
+    }
+    if (isSequenceEntry(next.content)) {
+      break
+    }
+
+    const entry = splitMappingEntry(next.content)
+    if (!entry) {
+      throw yamlError(state, next.line, `expected "key: value", found "${next.content.trim()}"`)
+    }
+    if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+      throw yamlError(state, next.line, `duplicate key "${entry.key}"`)
+    }
+
+    state.index += 1
+    result[entry.key] = parseEntryValue(state, next.line, entry.rest, indent, true)
+  }
+
+  return result
+}
+
+function parseSequence(state: ParserState, indent: number): FrontMatterValue[] {
+  const result: FrontMatterValue[] = []
+
+  for (let next = peekSignificant(state); next; next = peekSignificant(state)) {
+    if (next.indent < indent || !isSequenceEntry(next.content)) {
+      break
+    }
+    if (next.indent > indent) {
+      throw yamlError(state, next.line, 'unexpected indentation')
+    }
+
+    const afterDash = next.content.slice(1)
+    const itemText = afterDash.trimStart()
+    const itemIndent = indent + 1 + (afterDash.length - itemText.length)
+
+    if (itemText !== '' && !itemText.startsWith('#') &&
+      (isSequenceEntry(itemText) || splitMappingEntry(itemText) !== null)) {
+      // Re-read "- key: value" as a mapping (or nested list) indented past the dash
+      next.line.text = `${' '.repeat(itemIndent)}${itemText}`
+      result.push(parseBlock(state, itemIndent))
+      continue
+    }
+
+    state.index += 1
+    result.push(parseEntryValue(state, next.line, itemText, indent, false))
+  }
+
+  return result
+}
+
+function parseEntryValue(
+  state: ParserState,
+  line: YamlLine,
+  rest: string,
+  indent: number,
+  allowSiblingSequence: boolean,
+): FrontMatterValue {
+  const value = rest.trim()
+
+  if (value === '' || value.startsWith('#')) {
+    const child = peekSignificant(state)
+    if (!child) {
+      return null
+    }
+    if (child.indent > indent) {
+      return parseBlock(state, child.indent)
+    }
+    // YAML allows a list under a key at the same indentation as the key
+    if (allowSiblingSequence && child.indent === indent && isSequenceEntry(child.content)) {
+      return parseSequence(state, indent)
+    }
+    return null
+  }
+
+  if (/^[|>]/.test(value)) {
+    return parseBlockScalar(state, line, value, indent)
+  }
+
+  return parseFlowOrScalar(state, line, collectContinuation(state, value, indent))
+}
+
+/**
+ * Joins the more-indented lines that follow a plain or quoted scalar,
+ * folding the line breaks into spaces.
+ */
+function collectContinuation(state: ParserState, value: string, indent: number): string {
+  const parts = [value]
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index]!
+    if (isBlankOrComment(line.text)) {
+      break
+    }
+    const lineIndent = measureIndent(state, line)
+    if (lineIndent <= indent) {
+      break
+    }
+    // A more-indented "key: value" is almost always a mis-indented entry
+    if (splitMappingEntry(line.text.trim()) !== null || isSequenceEntry(line.text.trim())) {
+      throw yamlError(state, line, 'unexpected indentation')
+    }
+    parts.push(line.text.trim())
+    state.index += 1
+  }
+  return parts.join(' ')
+}
+
+function parseBlockScalar(
+  state: ParserState,
+  line: YamlLine,
+  header: string,
+  indent: number,
+): string {
+  const match = header.match(/^([|>])([1-9])?([-+])?([1-9])?\s*(#.*)?$/)
+  if (!match) {
+    throw yamlError(state, line, `invalid block scalar header "${header}"`)
+  }
+  const folded = match[1] === '>'
+  const explicitIndent = match[2] ?? match[4]
+  const chomping = match[3]
+
+  const rawLines: string[] = []
+  let contentIndent = explicitIndent ? indent + Number(explicitIndent) : -1
+
+  while (state.index < state.lines.length) {
+    const current = state.lines[state.index]!
+    if (current.text.trim() === '') {
+      rawLines.push('')
+      state.index += 1
+      continue
+    }
+    const lineIndent = measureIndent(state, current)
+    if (contentIndent === -1) {
+      contentIndent = lineIndent
+    }
+    if (lineIndent <= indent || lineIndent < contentIndent) {
+      break
+    }
+    rawLines.push(current.text.slice(contentIndent))
+    state.index += 1
+  }
+
+  let trailingBlank = 0
+  while (rawLines.length > 0 && rawLines[rawLines.length - 1] === '') {
+    rawLines.pop()
+    trailingBlank += 1
+  }
+
+  const content = folded ? foldLines(rawLines) : rawLines.join('\n')
+  if (content === '') {
+    return ''
+  }
+  if (chomping === '-') {
+    return content
+  }
+  if (chomping === '+') {
+    return `${content}\n${'\n'.repeat(trailingBlank)}`
+  }
+  return `${content}\n`
+}
+
+function foldLines(lines: readonly string[]): string {
+  let result = ''
+  lines.forEach((current, index) => {
+    if (index === 0) {
+      result = current
+      return
+    }
+    const previous = lines[index - 1]!
+    const isMoreIndented = (text: string): boolean => /^\s/.test(text)
+    if (current === '' || previous === '' || isMoreIndented(current) || isMoreIndented(previous)) {
+      result += `\n${current}`
+    } else {
+      result += ` ${current}`
+    }
+  })
+  // A single blank line between folded lines represents one newline
+  return result.replace(/\n\n(?=\S)/g, '\n')
+}
+
+function splitMappingEntry(content: string): { readonly key: string; readonly rest: string } | null {
+  const quote = content[0]
+  if (quote === '"' || quote === "'") {
+    const end = findClosingQuote(content, 0)
+    if (end === -1) {
+      return null
+    }
+    const after = content.slice(end + 1)
+    const colon = after.match(/^\s*:(\s|$)/)
+    if (!colon) {
+      return null
+    }
+    return {
+      key: unquote(content.slice(0, end + 1)),
+      rest: after.slice(colon[0].length),
+    }
+  }
+
+  if (quote === '[' || quote === '{' || quote === '#') {
+    return null
+  }
+
+  const match = content.match(/^([^#]*?)\s*:(?:\s+|$)/)
+  if (!match || match[1] === undefined || match[1].trim() === '') {
+    return null
+  }
+  return { key: match[1].trim(), rest: content.slice(match[0].length) }
+}
+
+function findClosingQuote(text: string, start: number): number {
+  const quote = text[start]
+  for (let i = start + 1; i < text.length; i += 1) {
+    const char = text[i]
+    if (quote === '"' && char === '\\') {
+      i += 1
+      continue
+    }
+    if (char === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i += 1
+        continue
+      }
+      return i
+    }
+  }
+  return -1
+}
+
+function unquote(text: string): string {
+  if (text.startsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'")
+  }
+  return text.slice(1, -1).replace(/\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|.)/g, (_match, escape: string) => {
+    switch (escape[0]) {
+      case 'n':
+        return '\n'
+      case 't':
+        return '\t'
+      case 'r':
+        return '\r'
+      case '0':
+        return '\0'
+      case 'u':
+      case 'x':
+        return String.fromCharCode(parseInt(escape.slice(1), 16))
+      default:
+        return escape
+    }
+  })
+}
+
+function stripComment(text: string): string {
+  const index = text.search(/(^|\s)#/)
+  return index === -1 ? text : text.slice(0, index)
+}
+
+function parseFlowOrScalar(state: ParserState, line: YamlLine, text: string): FrontMatterValue {
+  const value = text.trim()
+  const first = value[0]
+
+  if (first === '"' || first === "'") {
+    const end = findClosingQuote(value, 0)
+    if (end === -1) {
+      throw yamlError(state, line, 'unterminated quoted string')
+    }
+    if (stripComment(value.slice(end + 1)).trim() !== '') {
+      throw yamlError(state, line, `unexpected text after quoted string: "${value.slice(end + 1).trim()}"`)
+    }
+    return unquote(value.slice(0, end + 1))
+  }
+
+  if (first === '[' || first === '{') {
+    const cursor = { text: value, pos: 0 }
+    const parsed = parseFlowValue(state, line, cursor)
+    skipFlowWhitespace(cursor)
+    if (stripComment(value.slice(cursor.pos)).trim() !== '') {
+      throw yamlError(state, line, `unexpected text after ${first === '[' ? 'list' : 'mapping'}`)
+    }
+    return parsed
+  }
+
+  return resolvePlainScalar(stripComment(value).trim())
+}
+
+interface FlowCursor {
+  readonly text: string
+  pos: number
+}
+
+function skipFlowWhitespace(cursor: FlowCursor): void {
+  while (cursor.pos < cursor.text.length && /\s/.test(cursor.text[cursor.pos]!)) {
+    cursor.pos += 1
+  }
+}
+
+function parseFlowValue(state: ParserState, line: YamlLine, cursor: FlowCursor): FrontMatterValue {
+  skipFlowWhitespace(cursor)
+  const char = cursor.text[cursor.pos]
+
+  if (char === '[') {
+    cursor.pos += 1
+    const items: FrontMatterValue[] = []
+    skipFlowWhitespace(cursor)
+    while (cursor.text[cursor.pos] !== ']') {
+      if (cursor.pos >= cursor.text.length) {
+        throw yamlError(state, line, 'unterminated list, expected "]"')
+      }
+      items.push(parseFlowValue(state, line, cursor))
+      skipFlowWhitespace(cursor)
+      if (cursor.text[cursor.pos] === ',') {
+        cursor.pos += 1
+        skipFlowWhitespace(cursor)
+      } else if (cursor.text[cursor.pos] !== ']') {
+        throw yamlError(state, line, 'expected "," or "]" in list')
+      }
+    }
+    cursor.pos += 1
+    return items
+  }
+
+  if (char === '{') {
+    cursor.pos += 1
+    const mapping: YamlMapping = {}
+    skipFlowWhitespace(cursor)
+    while (cursor.text[cursor.pos] !== '}') {
+      if (cursor.pos >= cursor.text.length) {
+        throw yamlError(state, line, 'unterminated mapping, expected "}"')
+      }
+      const key = parseFlowValue(state, line, cursor)
+      skipFlowWhitespace(cursor)
+      if (cursor.text[cursor.pos] !== ':') {
+        throw yamlError(state, line, 'expected ":" after key in mapping')
+      }
+      cursor.pos += 1
+      mapping[String(key)] = parseFlowValue(state, line, cursor)
+      skipFlowWhitespace(cursor)
+      if (cursor.text[cursor.pos] === ',') {
+        cursor.pos += 1
+        skipFlowWhitespace(cursor)
+      } else if (cursor.text[cursor.pos] !== '}') {
+        throw yamlError(state, line, 'expected "," or "}" in mapping')
+      }
+    }
+    cursor.pos += 1
+    return mapping
+  }
+
+  if (char === '"' || char === "'") {
+    const end = findClosingQuote(cursor.text, cursor.pos)
+    if (end === -1) {
+      throw yamlError(state, line, 'unterminated quoted string')
+    }
+    const quoted = cursor.text.slice(cursor.pos, end + 1)
+    cursor.pos = end + 1
+    return unquote(quoted)
+  }
+
+  const start = cursor.pos
+  while (cursor.pos < cursor.text.length) {
+    const current = cursor.text[cursor.pos]!
+    const next = cursor.text[cursor.pos + 1]
+    if (current === ',' || current === ']' || current === '}') {
+      break
+    }
+    if (current === ':' && (next === undefined || /[\s,\]}]/.test(next))) {
+      break
+    }
+    cursor.pos += 1
+  }
+  return resolvePlainScalar(cursor.text.slice(start, cursor.pos).trim())
+}
+
+/**
+ * Resolves a plain (unquoted) scalar using the YAML 1.2 core schema, plus
+ * timestamps. Integers with leading zeros stay strings so phone numbers and
+ * postcodes survive untouched.
+ */
+export function resolvePlainScalar(value: string): FrontMatterValue {
+  if (NULL_VALUES.includes(value)) {
+    return null
+  }
+  if (TRUE_VALUES.includes(value)) {
+    return true
+  }
+  if (FALSE_VALUES.includes(value)) {
+    return false
+  }
+  if (INTEGER_PATTERN.test(value)) {
+    return Number(value.replace(/_/g, ''))
+  }
+  if (HEX_PATTERN.test(value)) {
+    return parseInt(value.slice(2), 16)
+  }
+  if (OCTAL_PATTERN.test(value)) {
+    return parseInt(value.slice(2), 8)
+  }
+  if (FLOAT_PATTERN.test(value)) {
+    return Number(value.replace(/_/g, ''))
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(value)) {
+    return value.startsWith('-') ? -Infinity : Infinity
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(value)) {
+    return NaN
+  }
+
+  const dateMatch = value.match(DATE_PATTERN)
+  if (dateMatch) {
+    const date = new Date(Date.UTC(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3])))
+    return Number.isNaN(date.getTime()) || !isCalendarDate(value) ? value : date
+  }
+  if (TIMESTAMP_PATTERN.test(value)) {
+    const normalized = value
+      .replace(/^(\d{4})-(\d{1,2})-(\d{1,2})/, (_m, y: string, m: string, d: string) =>
+        `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`)
+      .replace(/(?:[Tt]|[ \t]+)(\d{1,2}):/, (_m, h: string) => `T${h.padStart(2, '0')}:`)
+      .replace(/[ \t]*(Z|[-+]\d{1,2}(?::?\d{2})?)$/, (_m, zone: string) =>
+        zone === 'Z' ? 'Z' : formatTimezone(zone))
+    const hasZone = /(Z|[-+]\d{2}:\d{2})$/.test(normalized)
+    const date = new Date(hasZone ? normalized : `${normalized}Z`)
+    return Number.isNaN(date.getTime()) || !isCalendarDate(value) ? value : date
+  }
+
+  return value
+}
+
+/**
+ * Whether a leading `YYYY-MM-DD` names a day that exists. `Date` rolls
+ * `2024-02-30` over to March 1 instead of rejecting it.
+ */
+export function isCalendarDate(text: string): boolean {
+  const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (!match) {
+    return true
+  }
+  const [year, month, day] = match.slice(1).map(Number) as [number, number, number]
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+/**
+ * Formats a date the way it would be written in front matter: a plain
+ * `YYYY-MM-DD` for midnight UTC, otherwise a full ISO timestamp.
+ */
+export function formatTimestamp(date: Date): string {
+  const iso = date.toISOString()
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso
+}
+
+function formatTimezone(zone: string): string {
+  const match = zone.match(/^([-+])(\d{1,2})(?::?(\d{2}))?$/)
+  if (!match) {
+    return zone
+  }
+  return `${match[1]}${match[2]!.padStart(2, '0')}:${match[3] ?? '00'}`
+}
+
+/**
+ * Serializes front matter values back to YAML. Output is parseable by
+ * `parseYaml` and keeps strings as plain scalars where that is unambiguous.
+ */
+export function stringifyYaml(data: { readonly [key: string]: FrontMatterValue | undefined }): string {
+  return Object.entries(data)
+    .filter((entry): entry is [string, FrontMatterValue] => entry[1] !== undefined)
+    .map(([key, value]) => formatYamlEntry(formatYamlKey(key), value, 0))
+    .join('\n')
+}
+
+function formatYamlEntry(prefix: string, value: FrontMatterValue, indent: number): string {
+  const pad = ' '.repeat(indent)
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return `${pad}${prefix}: []`
+    }
+    const items = value.map((item: FrontMatterValue) => formatYamlSequenceItem(item, indent))
+    return `${pad}${prefix}:\n${items.join('\n')}`
+  }
+
+  if (isYamlMapping(value)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0) {
+      return `${pad}${prefix}: {}`
+    }
+    const children = entries.map(([key, child]) => formatYamlEntry(formatYamlKey(key), child, indent + 2))
+    return `${pad}${prefix}:\n${children.join('\n')}`
+  }
+
+  if (typeof value === 'string' && value.includes('\n')) {
+    const chomping = value.endsWith('\n') ? '' : '-'
+    const body = value
+      .replace(/\n$/, '')
+      .split('\n')
+      .map((line) => (line === '' ? '' : `${pad}  ${line}`))
+      .join('\n')
+    return `${pad}${prefix}: |${chomping}\n${body}`
+  }
+
+  return `${pad}${prefix}: ${formatYamlScalar(value)}`
+}
+
+function formatYamlSequenceItem(item: FrontMatterValue, indent: number): string {
+  const pad = ' '.repeat(indent)
+  if (isYamlMapping(item) && Object.keys(item).length > 0) {
+    const lines = Object.entries(item).map(([key, child]) =>
+      formatYamlEntry(formatYamlKey(key), child, indent + 2),
+    )
+    return `${pad}- ${lines.join('\n').slice(indent + 2)}`
+  }
+  if (Array.isArray(item) || isYamlMapping(item)) {
+    return `${pad}- ${formatFlowValue(item)}`
+  }
+  return `${pad}- ${formatYamlScalar(item)}`
+}
+
+function formatFlowValue(value: FrontMatterValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item: FrontMatterValue) => formatFlowValue(item)).join(', ')}]`
+  }
+  if (isYamlMapping(value)) {
+    const entries = Object.entries(value).map(([key, child]) => `${formatYamlKey(key)}: ${formatFlowValue(child)}`)
+    return `{${entries.join(', ')}}`
+  }
+  const scalar = formatYamlScalar(value)
+  return /[,[\]{}]/.test(scalar) && !scalar.startsWith('"') ? quoteYamlString(scalar) : scalar
+}
+
+function formatYamlKey(key: string): string {
+  return /^[A-Za-z0-9_][\w.-]*$/.test(key) ? key : quoteYamlString(key)
+}
+
+function formatYamlScalar(value: FrontMatterValue): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (value instanceof Date) {
+    return formatTimestamp(value)
+  }
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return '.nan'
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '.inf' : '-.inf'
+    }
+    return String(value)
+  }
+  if (typeof value === 'boolean') {
+    return String(value)
+  }
+  if (typeof value !== 'string') {
+    return formatFlowValue(value)
+  }
+  return needsQuotes(value) ? quoteYamlString(value) : value
+}
+
+function needsQuotes(value: string): boolean {
+  if (value !== value.trim() || value === '') {
+    return true
+  }
+  if (/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) || /:(\s|$)|\s#/.test(value)) {
+    return true
+  }
+  // Strings that would otherwise be read back as another type
+  return typeof resolvePlainScalar(value) !== 'string'
+}
+
+function quoteYamlString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+  return `"${escaped}"`
+}
+
+function isYamlMapping(value: FrontMatterValue): value is YamlMapping {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}